@@ -0,0 +1,52 @@
+import { setTimeout } from 'node:timers/promises'
+
+import { describe, expect, it } from 'vitest'
+
+import { addLogContext, getLogContext, withLogContext } from '../log-context'
+
+describe('withLogContext', () => {
+  it('should set the fields for the callback only', () => {
+    expect(withLogContext({ eventId: 'event-123' }, () => getLogContext())).toEqual({ eventId: 'event-123' })
+    expect(getLogContext()).toBeUndefined()
+  })
+
+  it('should add the fields to the enclosing context without changing it', () => {
+    withLogContext({ functionName: 'my-function', eventId: 'event-123' }, () => {
+      expect(withLogContext({ eventId: 'event-456' }, () => getLogContext())).toEqual({
+        functionName: 'my-function',
+        eventId: 'event-456',
+      })
+      expect(getLogContext()).toEqual({ functionName: 'my-function', eventId: 'event-123' })
+    })
+  })
+
+  it('should isolate the contexts of concurrent invocations', async () => {
+    const invoke = (uid: string, delay: number) =>
+      withLogContext({}, async () => {
+        addLogContext({ uid })
+        await setTimeout(delay)
+        return getLogContext()
+      })
+
+    await expect(Promise.all([invoke('user-1', 10), invoke('user-2', 0)])).resolves.toEqual([
+      { uid: 'user-1' },
+      { uid: 'user-2' },
+    ])
+  })
+})
+
+describe('addLogContext', () => {
+  it('should add the fields to the current context', () => {
+    withLogContext({ eventId: 'event-123' }, () => {
+      addLogContext({ uid: 'user-123' })
+
+      expect(getLogContext()).toEqual({ eventId: 'event-123', uid: 'user-123' })
+    })
+  })
+
+  it('should do nothing outside of a context', () => {
+    addLogContext({ uid: 'user-123' })
+
+    expect(getLogContext()).toBeUndefined()
+  })
+})
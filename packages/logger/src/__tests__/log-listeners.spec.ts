@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { addLogListener, notifyLogListeners, toLogRecord } from '../log-listeners'
+
+describe('toLogRecord', () => {
+  it('should format the message and merge the structured data', () => {
+    expect(toLogRecord('info', ['User %s signed in', 'abc', { userId: 'abc' }, { method: 'password' }])).toEqual({
+      level: 'info',
+      message: 'User abc signed in',
+      data: { userId: 'abc', method: 'password' },
+    })
+  })
+
+  it('should keep the first error', () => {
+    const error = new Error('Boom')
+
+    expect(toLogRecord('error', ['Failed', error, new Error('Other')])).toEqual({
+      level: 'error',
+      message: 'Failed',
+      error,
+    })
+  })
+
+  it('should use the error field of the structured data', () => {
+    const error = new Error('Boom')
+
+    expect(toLogRecord('warn', ['Retrying', { attempt: 2, error }])).toEqual({
+      level: 'warn',
+      message: 'Retrying',
+      data: { attempt: 2, error },
+      error,
+    })
+  })
+
+  it('should format the other values in the message', () => {
+    expect(toLogRecord('debug', ['Values', 42, ['a'], null])).toEqual({
+      level: 'debug',
+      message: "Values 42 [ 'a' ] null",
+    })
+  })
+})
+
+describe('addLogListener', () => {
+  it('should notify the listener until it is removed', () => {
+    const listener = vi.fn()
+    const removeListener = addLogListener(listener)
+
+    notifyLogListeners('info', ['Hello'])
+    removeListener()
+    notifyLogListeners('info', ['Bye'])
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({ level: 'info', message: 'Hello' })
+  })
+})
@@ -217,6 +217,258 @@ describe('logger', () => {
     })
   })
 
+  describe('log listeners', () => {
+    it('should notify the listeners of the TSLogger logs', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+      process.env.LOG_LEVEL = 'debug'
+
+      const { logger } = await import('../logger.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      vi.spyOn(console, 'log').mockImplementation(vi.fn())
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+      const error = new Error('Test error')
+
+      logger.warn('Slow request', { durationMs: 1200 })
+      logger.error('Request failed', error)
+      removeListener()
+
+      expect(listener).toHaveBeenCalledWith({ level: 'warn', message: 'Slow request', data: { durationMs: 1200 } })
+      expect(listener).toHaveBeenCalledWith({ level: 'error', message: 'Request failed', error })
+    })
+
+    it('should not notify the listeners of the TSLogger logs below the minimum level', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+      process.env.LOG_LEVEL = 'warn'
+
+      const { logger } = await import('../logger.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      logger.info('Ignored')
+      removeListener()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should notify TSLogger logs without a level as info', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+      delete process.env.LOG_LEVEL
+
+      const { logger } = await import('../logger.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      vi.spyOn(console, 'log').mockImplementation(vi.fn())
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      logger.log('test log message')
+      removeListener()
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ level: 'info' }))
+    })
+
+    it('should notify the listeners of the firebase logger logs', async () => {
+      delete process.env.FUNCTIONS_EMULATOR
+      delete process.env.NODE_ENV
+
+      const { logger } = await import('../logger.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      logger.debug('debug')
+      logger.log('log')
+      logger.info('info')
+      logger.warn('warn')
+      logger.error('error')
+      removeListener()
+
+      expect(listener.mock.calls.map(([record]) => record as unknown)).toEqual([
+        { level: 'debug', message: 'debug' },
+        { level: 'info', message: 'log' },
+        { level: 'info', message: 'info' },
+        { level: 'warn', message: 'warn' },
+        { level: 'error', message: 'error' },
+      ])
+    })
+  })
+
+  describe('context fields', () => {
+    const firebaseLogger = { debug: vi.fn(), log: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const TRACE_FIELD = 'logging.googleapis.com/trace'
+
+    beforeEach(() => {
+      delete process.env.FUNCTIONS_EMULATOR
+      delete process.env.NODE_ENV
+      process.env.GCLOUD_PROJECT = 'my-project'
+      vi.doMock('firebase-functions', () => ({ logger: firebaseLogger }))
+    })
+
+    afterEach(() => {
+      vi.doUnmock('firebase-functions')
+    })
+
+    it('should add the trace fields to the structured data of the firebase logger', async () => {
+      const { logger } = await import('../logger.js')
+      const { withTraceContext } = await import('../trace-context.js')
+
+      withTraceContext({ traceId: 'abc' }, () => {
+        logger.info('message', { userId: '123' })
+        logger.warn('message only')
+      })
+
+      expect(firebaseLogger.info).toHaveBeenCalledWith('message', {
+        userId: '123',
+        [TRACE_FIELD]: 'projects/my-project/traces/abc',
+      })
+      expect(firebaseLogger.warn).toHaveBeenCalledWith('message only', {
+        [TRACE_FIELD]: 'projects/my-project/traces/abc',
+      })
+    })
+
+    it('should add the fields of the log context, overridden by the fields of the log call', async () => {
+      const { logger } = await import('../logger.js')
+      const { withLogContext } = await import('../log-context.js')
+
+      withLogContext({ functionName: 'my-function', uid: 'user-1' }, () => {
+        logger.info('message', { uid: 'user-2' })
+        logger.debug('message only')
+      })
+
+      expect(firebaseLogger.info).toHaveBeenCalledWith('message', { functionName: 'my-function', uid: 'user-2' })
+      expect(firebaseLogger.debug).toHaveBeenCalledWith('message only', { functionName: 'my-function', uid: 'user-1' })
+    })
+
+    it('should not change the arguments without a log context or a trace', async () => {
+      const { logger } = await import('../logger.js')
+
+      logger.error('message', { userId: '123' })
+
+      expect(firebaseLogger.error).toHaveBeenCalledWith('message', { userId: '123' })
+    })
+  })
+
+  describe('context fields in emulator environment', () => {
+    it('should print the fields of the log context before the arguments of TSLogger logs', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+      process.env.LOG_LEVEL = 'debug'
+
+      const { logger } = await import('../logger.js')
+      const { withLogContext } = await import('../log-context.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      withLogContext({ functionName: 'billing-function' }, () => {
+        logger.child({ invoiceId: 'inv-1' }).info('Charged')
+      })
+      withLogContext({}, () => {
+        logger.info('Without context')
+      })
+      removeListener()
+
+      const [charged, withoutContext] = consoleSpy.mock.calls.map((args) => args.join(' '))
+      expect(charged).toMatch(/functionName.*billing-function.*invoiceId.*Charged/s)
+      expect(withoutContext).not.toContain('functionName')
+      expect(listener).toHaveBeenCalledWith({ level: 'info', message: 'Charged', data: { invoiceId: 'inv-1' } })
+    })
+  })
+
+  describe('child loggers', () => {
+    const firebaseLogger = { debug: vi.fn(), log: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+    afterEach(() => {
+      vi.doUnmock('firebase-functions')
+    })
+
+    it('should print the name and bindings of TSLogger sub-loggers', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+      process.env.LOG_LEVEL = 'debug'
+
+      const { logger } = await import('../logger.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      logger.child({ invoiceId: 'inv-1' }, { name: 'billing' }).child({}, { name: 'stripe' }).info('Charged')
+      removeListener()
+
+      const output = consoleSpy.mock.calls.flat().join(' ')
+      expect(output).toContain('billing:stripe')
+      expect(output).toContain('invoiceId')
+      expect(listener).toHaveBeenCalledWith({ level: 'info', message: 'Charged', data: { invoiceId: 'inv-1' } })
+    })
+
+    it('should keep the name of the parent for unnamed TSLogger sub-loggers', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+      process.env.LOG_LEVEL = 'debug'
+
+      const { logger } = await import('../logger.js')
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(vi.fn())
+
+      logger.child({}, { name: 'billing' }).child({ step: 'charge' }).info('Charged')
+      logger.child().info('Unnamed')
+
+      const [named, unnamed] = consoleSpy.mock.calls.map((args) => args.join(' '))
+      expect(named).toContain('billing')
+      expect(named).not.toContain('billing:billing')
+      expect(unnamed).not.toContain('billing')
+    })
+
+    it('should merge the bindings and name in the structured data of the firebase logger', async () => {
+      delete process.env.FUNCTIONS_EMULATOR
+      delete process.env.NODE_ENV
+      vi.doMock('firebase-functions', () => ({ logger: firebaseLogger }))
+
+      const { logger } = await import('../logger.js')
+      const { addLogListener } = await import('../log-listeners.js')
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+      const billingLogger = logger.child({ invoiceId: 'inv-1', step: 'create' }, { name: 'billing' })
+
+      billingLogger.child({ step: 'charge' }, { name: 'stripe' }).info('Charged', { amount: 10 })
+      billingLogger.child({ step: 'refund' }).warn('Refunded')
+      removeListener()
+
+      expect(firebaseLogger.info).toHaveBeenCalledWith('Charged', {
+        invoiceId: 'inv-1',
+        name: 'billing:stripe',
+        step: 'charge',
+        amount: 10,
+      })
+      expect(firebaseLogger.warn).toHaveBeenCalledWith('Refunded', {
+        invoiceId: 'inv-1',
+        name: 'billing',
+        step: 'refund',
+      })
+      expect(listener).toHaveBeenCalledWith({
+        level: 'info',
+        message: 'Charged',
+        data: { invoiceId: 'inv-1', name: 'billing:stripe', step: 'charge', amount: 10 },
+      })
+    })
+
+    it('should not change the arguments of children without bindings', async () => {
+      delete process.env.FUNCTIONS_EMULATOR
+      delete process.env.NODE_ENV
+      vi.doMock('firebase-functions', () => ({ logger: firebaseLogger }))
+
+      const { logger } = await import('../logger.js')
+
+      const child = logger.child()
+      child.debug('debug')
+      child.log('log')
+      child.error('error')
+
+      expect(firebaseLogger.debug).toHaveBeenCalledWith('debug')
+      expect(firebaseLogger.log).toHaveBeenCalledWith('log')
+      expect(firebaseLogger.error).toHaveBeenCalledWith('error')
+    })
+  })
+
   describe('logger method variants', () => {
     it('should handle multiple arguments', async () => {
       process.env.FUNCTIONS_EMULATOR = 'true'
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { extractTraceContext, getTraceContext, traceLogFields, withTraceContext } from '../trace-context'
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+
+describe('extractTraceContext', () => {
+  it('should extract the trace from the X-Cloud-Trace-Context header', () => {
+    expect(extractTraceContext({ 'x-cloud-trace-context': `${TRACE_ID.toUpperCase()}/255;o=1` })).toEqual({
+      traceId: TRACE_ID,
+      spanId: '00000000000000ff',
+      sampled: true,
+    })
+  })
+
+  it.each([`${TRACE_ID}/1;o=0`, `${TRACE_ID}/1`])('should extract an unsampled trace from %s', (header) => {
+    expect(extractTraceContext({ 'X-Cloud-Trace-Context': header })).toEqual(
+      expect.objectContaining({ sampled: false }),
+    )
+  })
+
+  it('should extract the trace from the traceparent header', () => {
+    expect(extractTraceContext({ traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-01` })).toEqual({
+      traceId: TRACE_ID,
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+    })
+  })
+
+  it('should extract an unsampled trace from the traceparent header', () => {
+    expect(extractTraceContext({ traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-00` })).toEqual(
+      expect.objectContaining({ sampled: false }),
+    )
+  })
+
+  it('should extract the trace from the traceparent attribute of an event', () => {
+    type Event = { id: string; traceparent?: string }
+    const event: Event = { id: 'event-123', traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-01` }
+
+    expect(extractTraceContext(event)).toEqual(expect.objectContaining({ traceId: TRACE_ID }))
+  })
+
+  it('should ignore malformed or missing headers', () => {
+    expect(extractTraceContext({ traceparent: 'invalid', 'x-cloud-trace-context': ['invalid'] })).toBeUndefined()
+    expect(extractTraceContext({})).toBeUndefined()
+    expect(extractTraceContext()).toBeUndefined()
+  })
+})
+
+describe('withTraceContext', () => {
+  it('should set the trace for the callback only', () => {
+    const trace = { traceId: TRACE_ID }
+
+    expect(withTraceContext(trace, () => getTraceContext())).toBe(trace)
+    expect(getTraceContext()).toBeUndefined()
+  })
+
+  it('should run the callback as is without a trace', () => {
+    expect(withTraceContext(undefined, () => 'result')).toBe('result')
+  })
+})
+
+describe('traceLogFields', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should return the Cloud Logging trace fields', () => {
+    vi.stubEnv('GCLOUD_PROJECT', 'my-project')
+
+    expect(
+      withTraceContext({ traceId: TRACE_ID, spanId: '00f067aa0ba902b7', sampled: false }, () => traceLogFields()),
+    ).toEqual({
+      'logging.googleapis.com/trace': `projects/my-project/traces/${TRACE_ID}`,
+      'logging.googleapis.com/spanId': '00f067aa0ba902b7',
+      'logging.googleapis.com/trace_sampled': false,
+    })
+  })
+
+  it('should fall back to GOOGLE_CLOUD_PROJECT and omit the unknown fields', () => {
+    vi.stubEnv('GCLOUD_PROJECT', undefined)
+    vi.stubEnv('GOOGLE_CLOUD_PROJECT', 'other-project')
+
+    expect(withTraceContext({ traceId: TRACE_ID }, () => traceLogFields())).toEqual({
+      'logging.googleapis.com/trace': `projects/other-project/traces/${TRACE_ID}`,
+    })
+  })
+
+  it('should return nothing without a trace or a project', () => {
+    vi.stubEnv('GCLOUD_PROJECT', undefined)
+    vi.stubEnv('GOOGLE_CLOUD_PROJECT', undefined)
+
+    expect(traceLogFields()).toBeUndefined()
+    expect(withTraceContext({ traceId: TRACE_ID }, () => traceLogFields())).toBeUndefined()
+  })
+})
@@ -1 +1,5 @@
+export * from './is-plain-object'
+export * from './log-context'
+export { addLogListener, type LogLevel, type LogListener, type LogRecord, notifyLogRecord } from './log-listeners'
 export * from './logger'
+export * from './trace-context'
@@ -0,0 +1,9 @@
+/**
+ * Returns whether the value is an object literal or an object created with `Object.create(null)`, as opposed to
+ * arrays, errors, dates and other class instances.
+ */
+export const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false
+  const prototype = Object.getPrototypeOf(value) as unknown
+  return prototype === Object.prototype || prototype === null
+}
@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export type LogContext = Record<string, unknown>
+
+const logContextStorage = new AsyncLocalStorage<LogContext>()
+
+/**
+ * Runs the callback with the fields added to every log entry of both loggers, on top of the fields of the enclosing
+ * context. The context is bound to the callback, so concurrent invocations never see the fields of each other.
+ */
+export const withLogContext = <R>(fields: LogContext, callback: () => R): R =>
+  logContextStorage.run({ ...logContextStorage.getStore(), ...fields }, callback)
+
+/**
+ * Adds fields to the context of the enclosing `withLogContext`. Does nothing outside of it, since a context entered
+ * at the top level would be shared by all the invocations of the instance.
+ */
+export const addLogContext = (fields: LogContext) => {
+  const context = logContextStorage.getStore()
+  if (context) {
+    Object.assign(context, fields)
+  }
+}
+
+/**
+ * Returns the fields of the current log context, if any.
+ */
+export const getLogContext = (): LogContext | undefined => logContextStorage.getStore()
@@ -0,0 +1,72 @@
+import { format } from 'node:util'
+
+import { isPlainObject } from './is-plain-object'
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal'
+
+export type LogRecord = {
+  level: LogLevel
+  message: string
+  data?: Record<string, unknown>
+  error?: Error
+}
+
+export type LogListener = (record: LogRecord) => void
+
+const listeners = new Set<LogListener>()
+
+/**
+ * Normalizes the arguments of a log call: the plain objects are merged in the structured data, the first `Error`
+ * (or the `error` field of the data) is the error, and the remaining arguments are formatted as the message.
+ */
+export const toLogRecord = (level: LogLevel, args: unknown[]): LogRecord => {
+  const messageArgs: unknown[] = []
+  let data: Record<string, unknown> | undefined
+  let error: Error | undefined
+  for (const arg of args) {
+    if (arg instanceof Error) {
+      error ??= arg
+    } else if (isPlainObject(arg)) {
+      data = { ...data, ...arg }
+    } else {
+      messageArgs.push(arg)
+    }
+  }
+  if (!error && data?.error instanceof Error) {
+    error = data.error
+  }
+  return {
+    level,
+    message: format(...messageArgs),
+    ...(data && { data }),
+    ...(error && { error }),
+  }
+}
+
+/**
+ * Calls the listeners added with `addLogListener` with the record of a log call, created only when there are
+ * listeners. Lets other loggers, such as `@valian/pino-logger`, notify the same listeners with their own records.
+ */
+export const notifyLogRecord = (createRecord: () => LogRecord) => {
+  if (listeners.size === 0) return
+  const record = createRecord()
+  for (const listener of listeners) {
+    listener(record)
+  }
+}
+
+/**
+ * Calls the listeners added with `addLogListener` with the record of a log call.
+ */
+export const notifyLogListeners = (level: LogLevel, args: unknown[]) => notifyLogRecord(() => toLogRecord(level, args))
+
+/**
+ * Calls the listener with the record of every log call of both loggers, such as the breadcrumb bridge of `@valian/node-sentry`.
+ * Returns a function removing the listener.
+ */
+export const addLogListener = (listener: LogListener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -1,5 +1,17 @@
 import { logger as firebaseLogger } from 'firebase-functions'
-import { Logger as TSLogger } from 'tslog'
+import { type ILogObj, type ILogObjMeta, type ISettings, loggerEnvironment, Logger as TSLogger } from 'tslog'
+
+import { isPlainObject } from './is-plain-object'
+import { getLogContext } from './log-context'
+import { type LogLevel, notifyLogListeners } from './log-listeners'
+import { traceLogFields } from './trace-context'
+
+export type LoggerBindings = Record<string, unknown>
+
+export type ChildLoggerOptions = {
+  /** Names the child logger, nested under the name of its parent as `parent:child`. */
+  name?: string
+}
 
 export type Logger = {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -12,6 +24,18 @@ export type Logger = {
   warn: (...args: any[]) => void
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   error: (...args: any[]) => void
+  /**
+   * Creates a logger adding the bindings, and those of its parents, to every log entry. Optional, so the objects
+   * implementing `Logger` without it stay valid.
+   */
+  child?: (bindings?: LoggerBindings, options?: ChildLoggerOptions) => Logger
+}
+
+/**
+ * The logger of the package, whose children are loggers of the package too.
+ */
+export type FunctionLogger = Omit<Logger, 'child'> & {
+  child: (bindings?: LoggerBindings, options?: ChildLoggerOptions) => FunctionLogger
 }
 
 function getMinLevel() {
@@ -30,40 +54,140 @@ function getMinLevel() {
   }
 }
 
-export const logger: Logger =
+const TSLOG_LEVELS: Partial<Record<string, LogLevel>> = {
+  SILLY: 'trace',
+  TRACE: 'trace',
+  DEBUG: 'debug',
+  INFO: 'info',
+  WARN: 'warn',
+  ERROR: 'error',
+  FATAL: 'fatal',
+}
+
+type TSLogArgument = { nativeError?: Error } | undefined
+
+/**
+ * Notifies the log listeners from a tslog transport, so the caller position of the pretty logs is kept. tslog passes
+ * the errors as objects holding the `nativeError`.
+ */
+const tslogListenerTransport = (logObj: ILogObj & ILogObjMeta) => {
+  const args = (logObj.args as unknown as TSLogArgument[]).map((arg) => arg?.nativeError ?? arg)
+  notifyLogListeners(TSLOG_LEVELS[logObj._meta.logLevelName] ?? 'info', args)
+}
+
+/**
+ * Adds the fields of the log context, the bindings of the logger and the trace to the structured data of a log call,
+ * which the firebase logger takes from its last argument. The fields of the log call take precedence over the
+ * bindings, which take precedence over the context.
+ */
+const withContextFields = (args: unknown[], bindings?: LoggerBindings) => {
+  const fields = { ...getLogContext(), ...bindings }
+  const trace = traceLogFields()
+  if (!trace && Object.keys(fields).length === 0) return args
+  const last = args.at(-1)
+  const data = isPlainObject(last) ? last : undefined
+  return [...(data ? args.slice(0, -1) : args), { ...fields, ...data, ...trace }]
+}
+
+const firebaseLogMethod =
+  (level: LogLevel, method: (...args: unknown[]) => void, bindings?: LoggerBindings) =>
+  (...args: unknown[]) => {
+    notifyLogListeners(level, bindings ? [bindings, ...args] : args)
+    method(...withContextFields(args, bindings))
+  }
+
+const childLoggerName = (parentName?: string, name?: string) =>
+  parentName && name ? `${parentName}:${name}` : (name ?? parentName)
+
+/**
+ * Creates the production logger, merging its bindings and name in the structured payload of every log entry.
+ */
+const createFirebaseLogger = (bindings: LoggerBindings = {}, name?: string): FunctionLogger => {
+  const fields = { ...bindings, ...(name && { name }) }
+  const payload = Object.keys(fields).length > 0 ? fields : undefined
+  return {
+    debug: firebaseLogMethod('debug', firebaseLogger.debug, payload),
+    log: firebaseLogMethod('info', firebaseLogger.log, payload),
+    info: firebaseLogMethod('info', firebaseLogger.info, payload),
+    warn: firebaseLogMethod('warn', firebaseLogger.warn, payload),
+    error: firebaseLogMethod('error', firebaseLogger.error, payload),
+    child: (childBindings, options = {}) =>
+      createFirebaseLogger({ ...bindings, ...childBindings }, childLoggerName(name, options.name)),
+  }
+}
+
+/**
+ * Adds `child` to a tslog logger, creating tslog sub-loggers which print their bindings before the arguments. The
+ * logger itself is returned, since wrapping its methods would hide the position of the callers.
+ */
+const withTSLogChild = (tsLogger: TSLogger<ILogObj>): FunctionLogger =>
+  Object.assign(tsLogger, {
+    child: (bindings: LoggerBindings = {}, { name }: ChildLoggerOptions = {}) => {
+      const prefix = Object.keys(bindings).length > 0 ? [bindings] : []
+      const subLogger = tsLogger.getSubLogger(name ? { name, prefix } : { prefix })
+      if (!name) {
+        // tslog nests every sub-logger under the name of its parent, an unnamed child keeps the name of its parent
+        subLogger.settings.parentNames = tsLogger.settings.parentNames
+      }
+      return withTSLogChild(subLogger)
+    },
+  })
+
+/**
+ * Formats the pretty logs with the fields of the log context printed before the arguments, like the bindings of the
+ * sub-loggers. Formatting them keeps the caller position, and keeps them out of the records of the listeners.
+ */
+const prettyFormatWithLogContext = (maskedArgs: unknown[], settings: ISettings<ILogObj>) => {
+  const context = getLogContext()
+  const args = context && Object.keys(context).length > 0 ? [context, ...maskedArgs] : maskedArgs
+  return loggerEnvironment.prettyFormatLogObj(args, settings)
+}
+
+const createTSLogger = () => {
+  const tsLogger = new TSLogger<ILogObj>({
+    minLevel: getMinLevel(),
+    argumentsArrayName: 'args',
+    prettyLogTemplate:
+      '{{hh}}:{{MM}}:{{ss}}:{{ms}}  {{logLevelName}}  [{{fileNameWithLine}}]{{nameWithDelimiterPrefix}}  ',
+    prettyErrorTemplate: '\n{{errorName}} {{errorMessage}}\nerror stack:\n{{errorStack}}',
+    prettyErrorStackTemplate: '  • {{fileName}}\t{{method}}\n\t{{filePathWithLine}}',
+    prettyErrorParentNamesSeparator: ':',
+    prettyErrorLoggerNameDelimiter: '\t',
+    overwrite: {
+      formatLogObj: prettyFormatWithLogContext,
+    },
+    prettyInspectOptions: {
+      depth: 5,
+      colors: true,
+      sorted: true,
+    },
+    stylePrettyLogs: true,
+    prettyLogTimeZone: 'local',
+    prettyLogStyles: {
+      logLevelName: {
+        '*': ['bold', 'black', 'bgWhiteBright', 'dim'],
+        SILLY: ['bold', 'white'],
+        TRACE: ['bold', 'whiteBright'],
+        DEBUG: ['bold', 'green'],
+        INFO: ['bold', 'blue'],
+        WARN: ['bold', 'yellow'],
+        ERROR: ['bold', 'red'],
+        FATAL: ['bold', 'redBright'],
+      },
+      dateIsoStr: 'white',
+      filePathWithLine: 'white',
+      name: ['white', 'bold'],
+      nameWithDelimiterPrefix: ['white', 'bold'],
+      nameWithDelimiterSuffix: ['white', 'bold'],
+      errorName: ['bold', 'bgRedBright', 'whiteBright'],
+      fileName: ['yellow'],
+    },
+  })
+  tsLogger.attachTransport(tslogListenerTransport)
+  return withTSLogChild(tsLogger)
+}
+
+export const logger: FunctionLogger =
   process.env.FUNCTIONS_EMULATOR === 'true' || process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development'
-    ? new TSLogger({
-        minLevel: getMinLevel(),
-        prettyLogTemplate: '{{hh}}:{{MM}}:{{ss}}:{{ms}}  {{logLevelName}}  [{{fileNameWithLine}}{{name}}]  ',
-        prettyErrorTemplate: '\n{{errorName}} {{errorMessage}}\nerror stack:\n{{errorStack}}',
-        prettyErrorStackTemplate: '  • {{fileName}}\t{{method}}\n\t{{filePathWithLine}}',
-        prettyErrorParentNamesSeparator: ':',
-        prettyErrorLoggerNameDelimiter: '\t',
-        prettyInspectOptions: {
-          depth: 5,
-          colors: true,
-          sorted: true,
-        },
-        stylePrettyLogs: true,
-        prettyLogTimeZone: 'local',
-        prettyLogStyles: {
-          logLevelName: {
-            '*': ['bold', 'black', 'bgWhiteBright', 'dim'],
-            SILLY: ['bold', 'white'],
-            TRACE: ['bold', 'whiteBright'],
-            DEBUG: ['bold', 'green'],
-            INFO: ['bold', 'blue'],
-            WARN: ['bold', 'yellow'],
-            ERROR: ['bold', 'red'],
-            FATAL: ['bold', 'redBright'],
-          },
-          dateIsoStr: 'white',
-          filePathWithLine: 'white',
-          name: ['white', 'bold'],
-          nameWithDelimiterPrefix: ['white', 'bold'],
-          nameWithDelimiterSuffix: ['white', 'bold'],
-          errorName: ['bold', 'bgRedBright', 'whiteBright'],
-          fileName: ['yellow'],
-        },
-      })
-    : (firebaseLogger as Logger)
+    ? createTSLogger()
+    : createFirebaseLogger()
@@ -0,0 +1,75 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export type TraceContext = {
+  traceId: string
+  spanId?: string
+  sampled?: boolean
+}
+
+const traceContextStorage = new AsyncLocalStorage<TraceContext>()
+
+const CLOUD_TRACE_PATTERN = /^(?<traceId>[\dA-Fa-f]{32})\/(?<spanId>\d+)(?:;o=(?<mask>[0-3]))?$/
+
+const TRACEPARENT_PATTERN = /^[\da-f]{2}-(?<traceId>[\da-f]{32})-(?<spanId>[\da-f]{16})-(?<flags>[\da-f]{2})$/
+
+const fieldValue = (carrier: object, name: string): unknown =>
+  name in carrier ? Reflect.get(carrier, name) : undefined
+
+const headerValue = (carrier: object, name: string) => {
+  const value = fieldValue(carrier, name) ?? fieldValue(carrier, name.toLowerCase())
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Extracts the trace of an invocation from its `X-Cloud-Trace-Context` or `traceparent` header. CloudEvents carry
+ * the `traceparent` as an attribute, so the event itself can be passed.
+ */
+export const extractTraceContext = (carrier?: object): TraceContext | undefined => {
+  if (!carrier) return undefined
+  const cloudTrace = CLOUD_TRACE_PATTERN.exec(headerValue(carrier, 'X-Cloud-Trace-Context') ?? '')?.groups
+  if (cloudTrace) {
+    return {
+      traceId: cloudTrace.traceId.toLowerCase(),
+      // The Cloud Trace header carries the span ID as a decimal, Cloud Logging expects its 16 hex digits
+      spanId: BigInt(cloudTrace.spanId).toString(16).padStart(16, '0'),
+      sampled: !!cloudTrace.mask && cloudTrace.mask !== '0',
+    }
+  }
+  const traceparent = TRACEPARENT_PATTERN.exec(headerValue(carrier, 'traceparent') ?? '')?.groups
+  if (traceparent) {
+    return {
+      traceId: traceparent.traceId,
+      spanId: traceparent.spanId,
+      sampled: (Number.parseInt(traceparent.flags, 16) & 1) === 1,
+    }
+  }
+  return undefined
+}
+
+/**
+ * Runs the callback with the trace written in the logs of both loggers. Runs it as is when there is no trace.
+ */
+export const withTraceContext = <R>(trace: TraceContext | undefined, callback: () => R): R =>
+  trace ? traceContextStorage.run(trace, callback) : callback()
+
+/**
+ * Returns the trace set by `withTraceContext` for the current invocation.
+ */
+export const getTraceContext = () => traceContextStorage.getStore()
+
+/**
+ * Returns the Cloud Logging fields correlating a log entry with the trace of the current invocation, or `undefined`
+ * when there is no trace or the project is unknown.
+ *
+ * @see https://cloud.google.com/logging/docs/structured-logging#special-payload-fields
+ */
+export const traceLogFields = (): Record<string, unknown> | undefined => {
+  const trace = getTraceContext()
+  const project = process.env.GCLOUD_PROJECT ?? process.env.GOOGLE_CLOUD_PROJECT
+  if (!trace || !project) return undefined
+  return {
+    'logging.googleapis.com/trace': `projects/${project}/traces/${trace.traceId}`,
+    ...(trace.spanId && { 'logging.googleapis.com/spanId': trace.spanId }),
+    ...(trace.sampled !== undefined && { 'logging.googleapis.com/trace_sampled': trace.sampled }),
+  }
+}
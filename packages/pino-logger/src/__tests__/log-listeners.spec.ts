@@ -0,0 +1,57 @@
+import { addLogListener } from '@valian/function-logger'
+import { describe, expect, it, vi } from 'vitest'
+
+import { notifyLogListeners, toLogRecord } from '../log-listeners'
+
+describe('toLogRecord', () => {
+  it('should use an object first argument as the structured data', () => {
+    expect(toLogRecord(30, [{ userId: 'abc' }, 'User %s signed in', 'abc'])).toEqual({
+      level: 'info',
+      message: 'User abc signed in',
+      data: { userId: 'abc' },
+    })
+  })
+
+  it('should use the err field of the structured data as the error', () => {
+    const error = new Error('Boom')
+
+    expect(toLogRecord(50, [{ err: error, attempt: 2 }, 'Failed'])).toEqual({
+      level: 'error',
+      message: 'Failed',
+      data: { err: error, attempt: 2 },
+      error,
+    })
+  })
+
+  it('should use an Error first argument as the error', () => {
+    const error = new Error('Boom')
+
+    expect(toLogRecord(60, [error, 'Crashed'])).toEqual({ level: 'fatal', message: 'Crashed', error })
+  })
+
+  it('should format string-only logs', () => {
+    expect(toLogRecord(40, ['Retry %d', 2])).toEqual({ level: 'warn', message: 'Retry 2' })
+  })
+
+  it.each([
+    [10, 'trace'],
+    [20, 'debug'],
+    [35, 'info'],
+  ])('should map the pino level %d to %s', (level, expected) => {
+    expect(toLogRecord(level, ['message']).level).toBe(expected)
+  })
+})
+
+describe('notifyLogListeners', () => {
+  it('should notify the listeners of @valian/function-logger until they are removed', () => {
+    const listener = vi.fn()
+    const removeListener = addLogListener(listener)
+
+    notifyLogListeners(30, ['Hello'])
+    removeListener()
+    notifyLogListeners(30, ['Bye'])
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({ level: 'info', message: 'Hello' })
+  })
+})
@@ -260,6 +260,103 @@ describe('logger', () => {
     })
   })
 
+  describe('log listeners', () => {
+    it('should notify the listeners of the enabled logs', async () => {
+      delete process.env.FUNCTIONS_EMULATOR
+      delete process.env.NODE_ENV
+
+      const { createLogger } = await import('../logger.js')
+      const { addLogListener } = await import('@valian/function-logger')
+      const logger = createLogger('info')
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      logger.debug('ignored')
+      logger.child({ requestId: '123' }).warn({ durationMs: 1200 }, 'Slow request')
+      removeListener()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ level: 'warn', message: 'Slow request', data: { durationMs: 1200 } })
+    })
+
+    it('should notify the listeners in local environments', async () => {
+      process.env.FUNCTIONS_EMULATOR = 'true'
+
+      const { createLogger } = await import('../logger.js')
+      const { addLogListener } = await import('@valian/function-logger')
+      const logger = createLogger('debug')
+      const listener = vi.fn()
+      const removeListener = addLogListener(listener)
+
+      logger.info('Local message')
+      removeListener()
+
+      expect(listener).toHaveBeenCalledWith({ level: 'info', message: 'Local message' })
+    })
+  })
+
+  describe('context fields', () => {
+    const firebaseLogger = { write: vi.fn() }
+
+    beforeEach(() => {
+      delete process.env.FUNCTIONS_EMULATOR
+      delete process.env.NODE_ENV
+      process.env.GCLOUD_PROJECT = 'my-project'
+      vi.doMock('firebase-functions', () => ({ logger: firebaseLogger }))
+    })
+
+    afterEach(() => {
+      vi.doUnmock('firebase-functions')
+    })
+
+    it('should write the trace fields of the current invocation', async () => {
+      const { createLogger } = await import('../logger.js')
+      const { withTraceContext } = await import('@valian/function-logger')
+      const logger = createLogger('info')
+
+      withTraceContext({ traceId: 'abc', spanId: '00f067aa0ba902b7', sampled: true }, () => {
+        logger.info({ userId: '123' }, 'traced message')
+      })
+
+      expect(firebaseLogger.write).toHaveBeenCalledWith({
+        severity: 'INFO',
+        message: 'traced message',
+        userId: '123',
+        'logging.googleapis.com/trace': 'projects/my-project/traces/abc',
+        'logging.googleapis.com/spanId': '00f067aa0ba902b7',
+        'logging.googleapis.com/trace_sampled': true,
+      })
+    })
+
+    it('should write the fields of the log context, overridden by the fields of the log call', async () => {
+      const { createLogger } = await import('../logger.js')
+      const { getLogContext, withLogContext } = await import('@valian/function-logger')
+      const logger = createLogger('info')
+
+      withLogContext({ functionName: 'my-function', uid: 'user-1' }, () => {
+        logger.info({ uid: 'user-2' }, 'message')
+
+        expect(getLogContext()).toEqual({ functionName: 'my-function', uid: 'user-1' })
+      })
+
+      expect(firebaseLogger.write).toHaveBeenCalledWith({
+        severity: 'INFO',
+        message: 'message',
+        functionName: 'my-function',
+        uid: 'user-2',
+      })
+    })
+
+    it('should not write trace fields without a trace', async () => {
+      const { createLogger } = await import('../logger.js')
+      const logger = createLogger('info')
+
+      logger.info('untraced message')
+
+      expect(firebaseLogger.write).toHaveBeenCalledWith({ severity: 'INFO', message: 'untraced message' })
+    })
+  })
+
   describe('pino logger features', () => {
     it('should support object as first argument (pino style)', async () => {
       process.env.FUNCTIONS_EMULATOR = 'true'
@@ -1 +1,11 @@
+export {
+  addLogContext,
+  addLogListener,
+  getLogContext,
+  type LogContext,
+  type LogLevel,
+  type LogListener,
+  type LogRecord,
+  withLogContext,
+} from '@valian/function-logger'
 export * from './logger'
@@ -0,0 +1,39 @@
+import { type LogLevel, type LogRecord, notifyLogRecord } from '@valian/function-logger'
+import { format } from 'node:util'
+
+/**
+ * Maps pino log level numbers to log levels, using ranges like `pinoLevelToSeverity` for custom levels.
+ */
+const pinoLevelToLogLevel = (level: number): LogLevel => {
+  if (level < 20) return 'trace'
+  if (level < 30) return 'debug'
+  if (level < 40) return 'info'
+  if (level < 50) return 'warn'
+  if (level < 60) return 'error'
+  return 'fatal'
+}
+
+/**
+ * Normalizes the arguments of a pino log call: an `Error` first argument is the error, an object first argument is
+ * the structured data (with its `err` field as the error), and the remaining arguments are formatted as the message.
+ */
+export const toLogRecord = (level: number, [first, ...rest]: unknown[]): LogRecord => {
+  if (first instanceof Error) {
+    return { level: pinoLevelToLogLevel(level), message: format(...rest), error: first }
+  }
+  if (typeof first === 'object' && first !== null) {
+    const data = first as Record<string, unknown>
+    return {
+      level: pinoLevelToLogLevel(level),
+      message: format(...rest),
+      data,
+      ...(data.err instanceof Error && { error: data.err }),
+    }
+  }
+  return { level: pinoLevelToLogLevel(level), message: format(first, ...rest) }
+}
+
+/**
+ * Calls the listeners added with the `addLogListener` of `@valian/function-logger` with the record of a pino log call.
+ */
+export const notifyLogListeners = (level: number, args: unknown[]) => notifyLogRecord(() => toLogRecord(level, args))
@@ -1,6 +1,9 @@
+import { getLogContext, traceLogFields } from '@valian/function-logger'
 import { logger as firebaseLogger } from 'firebase-functions'
 // eslint-disable-next-line import-x/no-named-as-default
-import pino, { type DestinationStream, type LevelWithSilentOrString } from 'pino'
+import pino, { type DestinationStream, type LevelWithSilentOrString, type LoggerOptions } from 'pino'
+
+import { notifyLogListeners } from './log-listeners'
 
 const isLocalEnvironment = () =>
   process.env.FUNCTIONS_EMULATOR === 'true' || process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development'
@@ -43,6 +46,7 @@ const firebaseDestination: DestinationStream = {
         severity: pinoLevelToSeverity(level),
         message: msg ?? '',
         ...rest,
+        ...traceLogFields(),
       })
     } catch {
       // Fallback for malformed JSON - write raw log line
@@ -54,10 +58,28 @@ const firebaseDestination: DestinationStream = {
   },
 }
 
+/**
+ * Notifies the log listeners of every enabled log call, including the calls of child loggers.
+ */
+const logListenerHooks: LoggerOptions['hooks'] = {
+  logMethod(inputArgs, method, level) {
+    notifyLogListeners(level, inputArgs)
+    method.apply(this, inputArgs)
+  },
+}
+
+/**
+ * Adds the fields of the `withLogContext` of `@valian/function-logger` to every log entry. pino merges the fields of
+ * the log call into the returned object, so the context is copied.
+ */
+const logContextMixin = () => ({ ...getLogContext() })
+
 export const createLogger = (level: LevelWithSilentOrString = process.env.LOG_LEVEL ?? 'debug') =>
   isLocalEnvironment()
     ? pino({
         level,
+        hooks: logListenerHooks,
+        mixin: logContextMixin,
         transport: {
           target: 'pino-pretty',
           options: {
@@ -67,6 +89,6 @@ export const createLogger = (level: LevelWithSilentOrString = process.env.LOG_LE
           },
         },
       })
-    : pino({ level }, firebaseDestination)
+    : pino({ level, hooks: logListenerHooks, mixin: logContextMixin }, firebaseDestination)
 
 export const logger = createLogger()
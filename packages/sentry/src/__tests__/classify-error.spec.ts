@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+
+import { classifyErrorsOfType, classifyFirestoreError, combineErrorClassifiers } from '../classify-error'
+
+class PaymentDeclinedError extends Error {}
+
+const firestoreError = (code: number) => Object.assign(new Error('Firestore error'), { code, details: 'details' })
+
+describe('classify-error', () => {
+  describe('combineErrorClassifiers', () => {
+    it('should return the first classification', () => {
+      const classify = combineErrorClassifiers(
+        undefined,
+        () => undefined,
+        () => ({ outcome: 'ignore' }),
+        () => ({ outcome: 'handled' }),
+      )
+
+      expect(classify(new Error('Boom'))).toEqual({ outcome: 'ignore' })
+    })
+
+    it('should return undefined when no classifier classifies the error', () => {
+      expect(combineErrorClassifiers(() => undefined)(new Error('Boom'))).toBeUndefined()
+    })
+  })
+
+  describe('classifyErrorsOfType', () => {
+    it('should classify the instances of the error class', () => {
+      const classify = classifyErrorsOfType(PaymentDeclinedError, { outcome: 'breadcrumb', rethrow: false })
+
+      expect(classify(new PaymentDeclinedError('Declined'))).toEqual({ outcome: 'breadcrumb', rethrow: false })
+      expect(classify(new Error('Boom'))).toBeUndefined()
+    })
+  })
+
+  describe('classifyFirestoreError', () => {
+    it.each([
+      [4, 'deadline-exceeded'],
+      [8, 'resource-exhausted'],
+      [10, 'aborted'],
+      [14, 'unavailable'],
+    ])('should classify the transient code %i as a breadcrumb', (code, name) => {
+      expect(classifyFirestoreError(firestoreError(code))).toEqual({
+        outcome: 'breadcrumb',
+        level: 'warning',
+        category: 'firestore.error',
+        extra: { code: name },
+      })
+    })
+
+    it.each([
+      [5, 'not-found'],
+      [6, 'already-exists'],
+    ])('should capture the permanent code %i as handled without rethrowing', (code, name) => {
+      expect(classifyFirestoreError(firestoreError(code))).toEqual({
+        outcome: 'handled',
+        level: 'warning',
+        rethrow: false,
+        tags: { 'firestore.error.code': name },
+      })
+    })
+
+    it.each([3, 7, 13, 99])('should not classify the code %i', (code) => {
+      expect(classifyFirestoreError(firestoreError(code))).toBeUndefined()
+    })
+
+    it('should not classify other errors', () => {
+      expect(classifyFirestoreError(new Error('Boom'))).toBeUndefined()
+      expect(classifyFirestoreError(Object.assign(new Error('Boom'), { code: 'ENOENT' }))).toBeUndefined()
+      expect(classifyFirestoreError({ code: 5 })).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import * as SentryNode from '@sentry/node'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { startDeadlineTimer } from '../deadline-timer'
+import { deferLoggedError, withLoggedErrors } from '../logged-errors'
+import { configureSentryWrappers } from '../sentry-wrapper-options'
+
+vi.mock('@sentry/node', () => ({
+  captureException: vi.fn(),
+  captureMessage: vi.fn(),
+  flush: vi.fn().mockResolvedValue(true),
+  getActiveSpan: vi.fn(),
+  getClient: vi.fn(),
+  getRootSpan: vi.fn((span: unknown) => span),
+  getSpanDescendants: vi.fn((span: unknown) => [span]),
+  spanToJSON: vi.fn(() => ({
+    op: 'on-task-dispatched',
+    description: 'process-order',
+    status: 'ok',
+    start_timestamp: 1000,
+    span_id: 'span-id',
+    trace_id: 'trace-id',
+    data: {},
+  })),
+}))
+
+describe('startDeadlineTimer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+    configureSentryWrappers({})
+  })
+
+  it('should capture a near timeout event and flush at 90% of the timeout', () => {
+    startDeadlineTimer('process-order', { timeoutSeconds: 60 })
+
+    vi.advanceTimersByTime(53_999)
+    expect(SentryNode.captureMessage).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(SentryNode.captureMessage).toHaveBeenCalledWith('process-order is about to time out', {
+      level: 'warning',
+      tags: { 'timeout.near': true },
+      contexts: { Deadline: { timeoutSeconds: 60, elapsedSeconds: 54, spans: undefined } },
+    })
+    expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+  })
+
+  it('should include the active span tree and fit the flush in the remaining time', () => {
+    vi.mocked(SentryNode.getActiveSpan).mockReturnValue({} as ReturnType<typeof SentryNode.getActiveSpan>)
+
+    startDeadlineTimer('process-order', { timeoutSeconds: 10, fraction: 0.8 })
+    vi.advanceTimersByTime(8000)
+
+    expect(SentryNode.captureMessage).toHaveBeenCalledWith('process-order is about to time out', {
+      level: 'warning',
+      tags: { 'timeout.near': true },
+      contexts: {
+        Deadline: {
+          timeoutSeconds: 10,
+          elapsedSeconds: 8,
+          spans: [
+            {
+              op: 'on-task-dispatched',
+              description: 'process-order',
+              status: 'ok',
+              startTimestamp: 1000,
+              timestamp: undefined,
+            },
+          ],
+        },
+      },
+    })
+    expect(SentryNode.flush).toHaveBeenCalledWith(2000)
+  })
+
+  it('should capture the errors logged during the invocation before the near timeout event', () => {
+    const error = new Error('Payment failed')
+    const hint = { level: 'error' as const, extra: { message: 'Charge failed' } }
+
+    withLoggedErrors(() => {
+      startDeadlineTimer('process-order', { timeoutSeconds: 60 })
+      deferLoggedError(error, hint)
+      vi.advanceTimersByTime(54_000)
+    })
+
+    expect(SentryNode.captureException).toHaveBeenCalledWith(error, hint)
+    expect(vi.mocked(SentryNode.captureException).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(SentryNode.captureMessage).mock.invocationCallOrder[0],
+    )
+  })
+
+  it('should use the flush timeout of the wrapper', () => {
+    startDeadlineTimer('process-order', { timeoutSeconds: 60 }, { timeout: 1000 })
+    vi.advanceTimersByTime(54_000)
+
+    expect(SentryNode.flush).toHaveBeenCalledWith(1000)
+  })
+
+  it('should read the timeout from the environment', () => {
+    vi.stubEnv('FUNCTION_TIMEOUT_SEC', '10')
+
+    startDeadlineTimer('process-order')
+    vi.advanceTimersByTime(9000)
+
+    expect(SentryNode.captureMessage).toHaveBeenCalled()
+  })
+
+  it('should use the global options', () => {
+    configureSentryWrappers({ deadline: { timeoutSeconds: 10, fraction: 0.5 } })
+
+    startDeadlineTimer('process-order')
+    vi.advanceTimersByTime(5000)
+
+    expect(SentryNode.captureMessage).toHaveBeenCalled()
+  })
+
+  it('should not capture once cleared', () => {
+    const clear = startDeadlineTimer('process-order', { timeoutSeconds: 10 })
+
+    clear()
+    vi.advanceTimersByTime(10_000)
+
+    expect(SentryNode.captureMessage).not.toHaveBeenCalled()
+  })
+
+  it('should not start a timer when the timeout is unknown', () => {
+    const clear = startDeadlineTimer('process-order')
+
+    expect(vi.getTimerCount()).toBe(0)
+    expect(clear()).toBeUndefined()
+  })
+})
@@ -0,0 +1,66 @@
+import { HttpsError } from 'firebase-functions/https'
+import { describe, expect, it } from 'vitest'
+
+import { classifyAuthBlockingRejection, classifyHttpsError } from '../expected-https-error'
+
+describe('classifyHttpsError', () => {
+  it('should classify client errors as breadcrumbs', () => {
+    const error = new HttpsError('invalid-argument', 'Missing email', { field: 'email' })
+
+    expect(classifyHttpsError(error)).toEqual({
+      outcome: 'breadcrumb',
+      level: 'warning',
+      category: 'https.error',
+      extra: { code: 'invalid-argument', details: { field: 'email' } },
+    })
+  })
+
+  it.each(['not-found', 'permission-denied', 'unauthenticated', 'failed-precondition'] as const)(
+    'should treat %s as a client error',
+    (code) => {
+      expect(classifyHttpsError(new HttpsError(code, 'Client error'))).toEqual(
+        expect.objectContaining({ outcome: 'breadcrumb' }),
+      )
+    },
+  )
+
+  it('should classify other expected codes as handled events', () => {
+    const error = new HttpsError('unavailable', 'Try again later', { retryAfter: 10 })
+
+    expect(classifyHttpsError(error)).toEqual({
+      outcome: 'handled',
+      level: 'warning',
+      tags: { 'https.error.code': 'unavailable' },
+      extra: { details: { retryAfter: 10 } },
+    })
+  })
+
+  it.each(['internal', 'unknown'] as const)('should not classify %s errors', (code) => {
+    expect(classifyHttpsError(new HttpsError(code, 'Server error'))).toBeUndefined()
+  })
+
+  it('should not classify errors that are not HttpsError', () => {
+    expect(classifyHttpsError(new Error('Boom'))).toBeUndefined()
+  })
+})
+
+describe('classifyAuthBlockingRejection', () => {
+  it('should classify rejections as handled info events', () => {
+    const error = new HttpsError('permission-denied', 'Domain not allowed', { domain: 'example.com' })
+
+    expect(classifyAuthBlockingRejection(error)).toEqual({
+      outcome: 'handled',
+      level: 'info',
+      tags: { 'auth.blocked': true, 'https.error.code': 'permission-denied' },
+      extra: { details: { domain: 'example.com' } },
+    })
+  })
+
+  it.each(['internal', 'unknown'] as const)('should not classify %s errors', (code) => {
+    expect(classifyAuthBlockingRejection(new HttpsError(code, 'Server error'))).toBeUndefined()
+  })
+
+  it('should not classify errors that are not HttpsError', () => {
+    expect(classifyAuthBlockingRejection(new TypeError('Boom'))).toBeUndefined()
+  })
+})
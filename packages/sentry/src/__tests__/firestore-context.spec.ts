@@ -0,0 +1,215 @@
+import { type Scope } from '@sentry/node'
+import { getLogContext, withLogContext } from '@valian/function-logger'
+import { type FirestoreAuthEvent } from 'firebase-functions/firestore'
+import { describe, expect, it } from 'vitest'
+import { mock } from 'vitest-mock-extended'
+
+import {
+  configureFirestoreAuthScope,
+  configureFirestoreScope,
+  documentPathTemplate,
+  firestoreDocumentContext,
+} from '../firestore-context'
+
+const snapshot = (data?: Record<string, unknown>) => ({ exists: data !== undefined, data: () => data })
+
+describe('documentPathTemplate', () => {
+  it('should replace the segments matching the params by their wildcard', () => {
+    expect(documentPathTemplate('users/abc/orders/o1', { uid: 'abc', orderId: 'o1' })).toBe(
+      'users/{uid}/orders/{orderId}',
+    )
+  })
+
+  it('should use each param once', () => {
+    expect(documentPathTemplate('users/same/friends/same', { uid: 'same', friendId: 'same' })).toBe(
+      'users/{uid}/friends/{friendId}',
+    )
+  })
+
+  it('should replace the document ids rather than collection ids sharing their value', () => {
+    expect(documentPathTemplate('users/abc/posts/users', { uid: 'abc', postId: 'users' })).toBe(
+      'users/{uid}/posts/{postId}',
+    )
+    expect(documentPathTemplate('teams/global/users/abc', { uid: 'abc' })).toBe('teams/global/users/{uid}')
+    expect(documentPathTemplate('users/users', { uid: 'users' })).toBe('users/{uid}')
+  })
+
+  it('should replace the wildcard collection ids', () => {
+    expect(documentPathTemplate('users/abc', { collection: 'users', docId: 'abc' })).toBe('{collection}/{docId}')
+    expect(documentPathTemplate('users/abc/posts/p1', { collection: 'posts', postId: 'p1' })).toBe(
+      'users/abc/{collection}/{postId}',
+    )
+  })
+
+  it('should skip the params missing from the path', () => {
+    expect(documentPathTemplate('users/abc', { uid: 'abc', orderId: 'o1' })).toBe('users/{uid}')
+    expect(documentPathTemplate('abc/users', { extra: 'x', uid: 'abc', other: 'users' })).toBe('{uid}/{other}')
+  })
+
+  it('should keep the path when there are no params', () => {
+    expect(documentPathTemplate('settings/global')).toBe('settings/global')
+  })
+})
+
+describe('firestoreDocumentContext', () => {
+  it('should record only the changed fields of an update', () => {
+    const context = firestoreDocumentContext({
+      path: 'users/abc',
+      params: { uid: 'abc' },
+      before: snapshot({ name: 'John', profile: { age: 30, city: 'Montreal' }, tags: ['a'] }),
+      after: snapshot({ name: 'John', profile: { age: 31, city: 'Montreal' }, tags: ['a', 'b'] }),
+    })
+
+    expect(context).toEqual({
+      document: 'users/{uid}',
+      params: { uid: 'abc' },
+      path: 'users/abc',
+      id: 'abc',
+      changeType: 'update',
+      changedFields: ['profile.age', 'tags'],
+      before: { profile: { age: 30 }, tags: ['a'] },
+      after: { profile: { age: 31 }, tags: ['a', 'b'] },
+    })
+  })
+
+  it('should record added and removed fields', () => {
+    const context = firestoreDocumentContext({
+      path: 'users/abc',
+      before: snapshot({ removed: true, profile: {} }),
+      after: snapshot({ added: true, profile: { age: 30 } }),
+    })
+
+    expect(context).toEqual(
+      expect.objectContaining({
+        params: {},
+        changedFields: ['added', 'profile', 'profile.age', 'removed'],
+        before: { removed: true, profile: {} },
+        after: { added: true, profile: { age: 30 } },
+      }),
+    )
+  })
+
+  it('should detect creations and deletions from the document existence', () => {
+    expect(firestoreDocumentContext({ path: 'users/abc', before: snapshot(), after: snapshot({ a: 1 }) })).toEqual(
+      expect.objectContaining({ changeType: 'create', after: { a: 1 } }),
+    )
+    expect(firestoreDocumentContext({ path: 'users/abc', before: snapshot({ a: 1 }), after: snapshot() })).toEqual(
+      expect.objectContaining({ changeType: 'delete', before: { a: 1 } }),
+    )
+  })
+
+  it('should serialize Firestore values readably', () => {
+    class Timestamp {
+      seconds = 1_704_067_200
+      nanoseconds = 0
+      toDate = () => new Date('2024-01-01T00:00:00.000Z')
+    }
+    class DocumentReference {
+      firestore = {}
+      path = 'teams/xyz'
+    }
+    class GeoPoint {
+      get latitude() {
+        return 45.5
+      }
+      get longitude() {
+        return -73.6
+      }
+    }
+    const timestamp = new Timestamp()
+    const bytes = new Uint8Array([1])
+
+    const context = firestoreDocumentContext({
+      path: 'users/abc',
+      after: snapshot({
+        createdAt: timestamp,
+        updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+        team: new DocumentReference(),
+        location: new GeoPoint(),
+        history: [timestamp],
+        bytes,
+        empty: null,
+      }),
+    })
+
+    expect(context.after).toEqual({
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+      team: 'teams/xyz',
+      location: { latitude: 45.5, longitude: -73.6 },
+      history: ['2024-01-01T00:00:00.000Z'],
+      bytes,
+      empty: null,
+    })
+  })
+
+  it('should scrub the changed fields with the document path', () => {
+    const context = firestoreDocumentContext(
+      {
+        path: 'users/abc',
+        before: snapshot({ email: 'john@example.com', address: { city: 'Montreal' } }),
+        after: snapshot({ email: 'jane@example.com', address: { city: 'Quebec' } }),
+      },
+      { denyKeys: ['email'], pathMasks: ['users/*/address'] },
+    )
+
+    expect(context.before).toEqual({ email: '[Filtered]', address: '[Filtered]' })
+    expect(context.after).toEqual({ email: '[Filtered]', address: '[Filtered]' })
+  })
+})
+
+describe('configureFirestoreScope', () => {
+  it('should tag the change type and set the document context', () => {
+    const scope = mock<Scope>()
+
+    const logContext = withLogContext({}, () => {
+      configureFirestoreScope(scope, { path: 'users/abc', params: { uid: 'abc' }, after: snapshot({ a: 1 }) })
+      return getLogContext()
+    })
+
+    expect(scope.setTag).toHaveBeenCalledWith('firestore.change_type', 'create')
+    expect(scope.setContext).toHaveBeenCalledWith(
+      'Firestore Document',
+      expect.objectContaining({ document: 'users/{uid}', changeType: 'create' }),
+    )
+    expect(logContext).toEqual({ documentPath: 'users/abc' })
+  })
+})
+
+describe('configureFirestoreAuthScope', () => {
+  const authEvent = (auth: Partial<Pick<FirestoreAuthEvent<unknown>, 'authType' | 'authId'>>) =>
+    ({ document: 'users/abc', params: {}, ...auth }) as FirestoreAuthEvent<unknown>
+
+  it('should tag the auth type and set the principal as the Sentry user', () => {
+    const scope = mock<Scope>()
+
+    const logContext = withLogContext({}, () => {
+      configureFirestoreAuthScope(
+        scope,
+        authEvent({ authType: 'service_account', authId: 'worker@project.iam.gserviceaccount.com' }),
+      )
+      return getLogContext()
+    })
+
+    expect(scope.setTag).toHaveBeenCalledWith('auth.type', 'service_account')
+    expect(scope.setUser).toHaveBeenCalledWith({ id: 'worker@project.iam.gserviceaccount.com' })
+    expect(logContext).toEqual({ uid: 'worker@project.iam.gserviceaccount.com' })
+  })
+
+  it('should only tag the auth type of writes without a principal', () => {
+    const scope = mock<Scope>()
+
+    configureFirestoreAuthScope(scope, authEvent({ authType: 'system' }))
+
+    expect(scope.setTag).toHaveBeenCalledWith('auth.type', 'system')
+    expect(scope.setUser).not.toHaveBeenCalled()
+  })
+
+  it('should ignore events without an auth context', () => {
+    const scope = mock<Scope>()
+
+    configureFirestoreAuthScope(scope, authEvent({}))
+
+    expect(scope.setTag).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,72 @@
+import * as SentryNode from '@sentry/node'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { sentryLogBreadcrumbs } from '../log-breadcrumbs'
+
+vi.mock('@sentry/node', () => ({
+  addBreadcrumb: vi.fn(),
+  captureException: vi.fn(),
+}))
+
+describe('sentryLogBreadcrumbs', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should add a breadcrumb with the level and structured data of the log', () => {
+    sentryLogBreadcrumbs()({ level: 'warn', message: 'Slow request', data: { durationMs: 1200 } })
+
+    expect(SentryNode.addBreadcrumb).toHaveBeenCalledWith({
+      category: 'log',
+      level: 'warning',
+      message: 'Slow request',
+      data: { durationMs: 1200 },
+    })
+  })
+
+  it.each([
+    ['trace', 'debug'],
+    ['debug', 'debug'],
+    ['info', 'info'],
+    ['fatal', 'fatal'],
+  ] as const)('should map the %s log level to the %s severity', (level, severity) => {
+    sentryLogBreadcrumbs()({ level, message: 'Message' })
+
+    expect(SentryNode.addBreadcrumb).toHaveBeenCalledWith(expect.objectContaining({ level: severity }))
+  })
+
+  it('should use the error message for logs without a message', () => {
+    sentryLogBreadcrumbs()({ level: 'error', message: '', error: new Error('Boom') })
+
+    expect(SentryNode.addBreadcrumb).toHaveBeenCalledWith(expect.objectContaining({ message: 'Boom' }))
+  })
+
+  it('should not capture errors by default', () => {
+    sentryLogBreadcrumbs()({ level: 'error', message: 'Failed', error: new Error('Boom') })
+
+    expect(SentryNode.captureException).not.toHaveBeenCalled()
+  })
+
+  it('should capture the error logs carrying an Error as handled events', () => {
+    const error = new Error('Boom')
+
+    sentryLogBreadcrumbs({ captureErrors: true })({ level: 'error', message: 'Failed', data: { orderId: 'o1' }, error })
+
+    expect(SentryNode.captureException).toHaveBeenCalledWith(error, {
+      level: 'error',
+      extra: { message: 'Failed', orderId: 'o1' },
+    })
+  })
+
+  it('should not capture the errors of logs below the error level', () => {
+    sentryLogBreadcrumbs({ captureErrors: true })({ level: 'warn', message: 'Retrying', error: new Error('Boom') })
+
+    expect(SentryNode.captureException).not.toHaveBeenCalled()
+  })
+
+  it('should not capture error logs without an Error', () => {
+    sentryLogBreadcrumbs({ captureErrors: true })({ level: 'fatal', message: 'Crashed' })
+
+    expect(SentryNode.captureException).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,72 @@
+import * as SentryNode from '@sentry/node'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { captureLoggedErrors, deferLoggedError, dropLoggedError, withLoggedErrors } from '../logged-errors'
+
+vi.mock('@sentry/node', () => ({
+  captureException: vi.fn(),
+}))
+
+describe('logged errors', () => {
+  const hint = { level: 'error' as const, extra: { message: 'Failed' } }
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should not defer the logged errors outside of an invocation', () => {
+    expect(deferLoggedError(new Error('Boom'), hint)).toBe(false)
+
+    dropLoggedError(new Error('Boom'))
+    captureLoggedErrors()
+
+    expect(SentryNode.captureException).not.toHaveBeenCalled()
+  })
+
+  it('should capture each deferred error once, with the hint of its first log', () => {
+    const error = new Error('Boom')
+
+    withLoggedErrors(() => {
+      expect(deferLoggedError(error, hint)).toBe(true)
+      deferLoggedError(error, { level: 'fatal', extra: { message: 'Crashed' } })
+      captureLoggedErrors()
+      captureLoggedErrors()
+    })
+
+    expect(SentryNode.captureException).toHaveBeenCalledTimes(1)
+    expect(SentryNode.captureException).toHaveBeenCalledWith(error, hint)
+  })
+
+  it('should not capture the dropped errors', () => {
+    const error = new Error('Boom')
+
+    withLoggedErrors(() => {
+      deferLoggedError(error, hint)
+      dropLoggedError(error)
+      captureLoggedErrors()
+    })
+
+    expect(SentryNode.captureException).not.toHaveBeenCalled()
+  })
+
+  it('should isolate the errors of concurrent invocations', async () => {
+    const first = new Error('First')
+    const second = new Error('Second')
+
+    await Promise.all([
+      withLoggedErrors(async () => {
+        deferLoggedError(first, hint)
+        await Promise.resolve()
+        dropLoggedError(second)
+        captureLoggedErrors()
+      }),
+      withLoggedErrors(async () => {
+        deferLoggedError(second, hint)
+        await Promise.resolve()
+      }),
+    ])
+
+    expect(SentryNode.captureException).toHaveBeenCalledTimes(1)
+    expect(SentryNode.captureException).toHaveBeenCalledWith(first, hint)
+  })
+})
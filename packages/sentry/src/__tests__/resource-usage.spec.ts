@@ -0,0 +1,101 @@
+import * as SentryNode from '@sentry/node'
+import { type Span } from '@sentry/node'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mock } from 'vitest-mock-extended'
+
+import { reportResourceUsage, type ResourceUsage, startResourceMeasurement } from '../resource-usage'
+import { configureSentryWrappers } from '../sentry-wrapper-options'
+
+vi.mock('@sentry/node', () => ({
+  captureMessage: vi.fn(),
+}))
+
+const usage: ResourceUsage = {
+  wallTimeMs: 1500,
+  cpuUserMs: 800,
+  cpuSystemMs: 50,
+  heapUsedDeltaBytes: 10 * 1024 * 1024,
+  rssDeltaBytes: 300 * 1024 * 1024,
+  eventLoopDelayMaxMs: 120,
+  eventLoopDelayMeanMs: 12,
+}
+
+describe('resource-usage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    configureSentryWrappers({})
+  })
+
+  describe('startResourceMeasurement', () => {
+    it('should measure the resources used until stopped', async () => {
+      const stop = startResourceMeasurement()
+      await new Promise((resolve) => {
+        setTimeout(resolve, 30)
+      })
+
+      const measured = stop()
+
+      expect(measured.wallTimeMs).toBeGreaterThanOrEqual(25)
+      expect(measured.cpuUserMs).toBeGreaterThanOrEqual(0)
+      expect(measured.cpuSystemMs).toBeGreaterThanOrEqual(0)
+      expect(measured.heapUsedDeltaBytes).toEqual(expect.any(Number))
+      expect(measured.rssDeltaBytes).toEqual(expect.any(Number))
+      expect(measured.eventLoopDelayMaxMs).toBeGreaterThan(0)
+      expect(measured.eventLoopDelayMeanMs).toBeGreaterThan(0)
+    })
+
+    it('should report no event loop delay when stopped right away', () => {
+      expect(startResourceMeasurement()().eventLoopDelayMeanMs).toBe(0)
+    })
+  })
+
+  describe('reportResourceUsage', () => {
+    it('should attach the usage to the span', () => {
+      const span = mock<Span>()
+
+      reportResourceUsage('process-order', span, usage)
+
+      expect(span.setAttributes).toHaveBeenCalledWith({
+        'resource.wall_time_ms': 1500,
+        'resource.cpu_user_ms': 800,
+        'resource.cpu_system_ms': 50,
+        'resource.heap_used_delta_bytes': 10 * 1024 * 1024,
+        'resource.rss_delta_bytes': 300 * 1024 * 1024,
+        'resource.event_loop_delay_max_ms': 120,
+        'resource.event_loop_delay_mean_ms': 12,
+      })
+      expect(SentryNode.captureMessage).not.toHaveBeenCalled()
+    })
+
+    it('should capture a slow invocation', () => {
+      reportResourceUsage('process-order', mock<Span>(), usage, { slowInvocationMs: 1000 })
+
+      expect(SentryNode.captureMessage).toHaveBeenCalledWith('process-order slow invocation', {
+        level: 'warning',
+        tags: { 'invocation.slow': true },
+        contexts: { 'Resource Usage': usage },
+      })
+    })
+
+    it('should capture a memory spike with the global threshold', () => {
+      configureSentryWrappers({ resources: { memorySpikeMb: 256 } })
+
+      reportResourceUsage('process-order', mock<Span>(), usage)
+
+      expect(SentryNode.captureMessage).toHaveBeenCalledWith('process-order memory spike', {
+        level: 'warning',
+        tags: { 'invocation.memory_spike': true },
+        contexts: { 'Resource Usage': usage },
+      })
+    })
+
+    it('should not capture under the thresholds', () => {
+      reportResourceUsage('process-order', mock<Span>(), usage, { slowInvocationMs: 2000, memorySpikeMb: 512 })
+
+      expect(SentryNode.captureMessage).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { type Scope } from '@sentry/node'
+import { logger } from '@valian/function-logger'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mock } from 'vitest-mock-extended'
+
+import { configureRetryScope, eventRetryAttempt, skipRetriedFailure } from '../retry-attempt'
+import { configureSentryWrappers } from '../sentry-wrapper-options'
+
+vi.mock('@valian/function-logger', () => ({
+  logger: { warn: vi.fn() },
+}))
+
+describe('retry-attempt', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    configureSentryWrappers({})
+    vi.useRealTimers()
+  })
+
+  describe('eventRetryAttempt', () => {
+    it('should compute the event age', () => {
+      vi.useFakeTimers({ now: new Date('2024-01-01T00:01:00.000Z') })
+
+      expect(eventRetryAttempt('2024-01-01T00:00:00.000Z')).toEqual({ attempt: undefined, eventAge: 60_000 })
+      expect(eventRetryAttempt('2024-01-01T00:00:00.000Z', 3)).toEqual({ attempt: 3, eventAge: 60_000 })
+    })
+  })
+
+  describe('configureRetryScope', () => {
+    it('should tag the attempt number', () => {
+      const scope = mock<Scope>()
+
+      configureRetryScope(scope, { attempt: 2 })
+
+      expect(scope.setTag).toHaveBeenCalledWith('retry.attempt', 2)
+      expect(scope.setContext).toHaveBeenCalledWith('Retry', { attempt: 2 })
+    })
+
+    it('should only set the context when the attempt number is unknown', () => {
+      const scope = mock<Scope>()
+
+      configureRetryScope(scope, { eventAge: 1000 })
+
+      expect(scope.setTag).not.toHaveBeenCalled()
+      expect(scope.setContext).toHaveBeenCalledWith('Retry', { eventAge: 1000 })
+    })
+  })
+
+  describe('skipRetriedFailure', () => {
+    const error = new Error('Transient failure')
+
+    it('should report every attempt by default', () => {
+      expect(skipRetriedFailure({ attempt: 1 })(error)).toBe(false)
+      expect(skipRetriedFailure({ eventAge: 0 })(error)).toBe(false)
+      expect(skipRetriedFailure({})(error)).toBe(false)
+    })
+
+    it('should skip the attempts before reportFromAttempt', () => {
+      expect(skipRetriedFailure({ attempt: 2 }, { reportFromAttempt: 3 })(error)).toBe(true)
+      expect(skipRetriedFailure({ attempt: 3 }, { reportFromAttempt: 3 })(error)).toBe(false)
+      expect(logger.warn).toHaveBeenCalledWith('Failure not reported to Sentry, waiting for the next attempt', {
+        attempt: 2,
+        error,
+      })
+    })
+
+    it('should only report the final attempt', () => {
+      configureSentryWrappers({ retry: { maxAttempts: 5 } })
+
+      expect(skipRetriedFailure({ attempt: 4 })(error)).toBe(true)
+      expect(skipRetriedFailure({ attempt: 5 })(error)).toBe(false)
+    })
+
+    it('should skip the events younger than reportAfterEventAge', () => {
+      expect(skipRetriedFailure({ eventAge: 1000 }, { reportAfterEventAge: 60_000 })(error)).toBe(true)
+      expect(skipRetriedFailure({ eventAge: 60_000 }, { reportAfterEventAge: 60_000 })(error)).toBe(false)
+    })
+
+    it('should prefer the attempt number over the event age', () => {
+      expect(skipRetriedFailure({ attempt: 1, eventAge: 1000 }, { reportAfterEventAge: 60_000 })(error)).toBe(false)
+    })
+  })
+})
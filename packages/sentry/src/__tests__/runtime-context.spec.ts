@@ -0,0 +1,99 @@
+import { type Scope } from '@sentry/node'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mock } from 'vitest-mock-extended'
+
+const importRuntimeContext = async () => import('../runtime-context')
+
+describe('runtime-context', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.stubEnv('K_SERVICE', 'process-order')
+    vi.stubEnv('K_REVISION', 'process-order-00042-abc')
+    vi.stubEnv('FUNCTION_REGION', 'northamerica-northeast1')
+    vi.stubEnv('GCLOUD_PROJECT', 'my-project')
+    vi.stubEnv('FUNCTION_MEMORY_MB', '512')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  describe('runtimeContext', () => {
+    it('should read the runtime metadata from the environment', async () => {
+      const { runtimeContext } = await importRuntimeContext()
+
+      expect(runtimeContext()).toEqual({
+        service: 'process-order',
+        revision: 'process-order-00042-abc',
+        region: 'northamerica-northeast1',
+        project: 'my-project',
+        memoryLimitMb: 512,
+        instanceId: expect.any(String),
+      })
+    })
+
+    it('should keep the same instance id across invocations', async () => {
+      const { runtimeContext } = await importRuntimeContext()
+
+      expect(runtimeContext().instanceId).toBe(runtimeContext().instanceId)
+    })
+
+    it('should fall back to the Google Cloud project and the cgroup memory limit', async () => {
+      vi.stubEnv('GCLOUD_PROJECT', undefined)
+      vi.stubEnv('GOOGLE_CLOUD_PROJECT', 'other-project')
+      vi.stubEnv('FUNCTION_MEMORY_MB', undefined)
+      vi.spyOn(process, 'constrainedMemory').mockReturnValue(256 * 1024 * 1024)
+      const { runtimeContext } = await importRuntimeContext()
+
+      expect(runtimeContext()).toEqual(expect.objectContaining({ project: 'other-project', memoryLimitMb: 256 }))
+    })
+
+    it('should leave the memory limit undefined when unconstrained', async () => {
+      vi.stubEnv('FUNCTION_MEMORY_MB', undefined)
+      vi.spyOn(process, 'constrainedMemory').mockReturnValue(0)
+      const { runtimeContext } = await importRuntimeContext()
+
+      expect(runtimeContext().memoryLimitMb).toBeUndefined()
+    })
+  })
+
+  describe('configureRuntimeScope', () => {
+    it('should tag cold_start on the first invocation only', async () => {
+      const { configureRuntimeScope } = await importRuntimeContext()
+      const firstScope = mock<Scope>()
+      const secondScope = mock<Scope>()
+
+      configureRuntimeScope(firstScope)
+      configureRuntimeScope(secondScope)
+
+      expect(firstScope.setTag).toHaveBeenCalledWith('cold_start', true)
+      expect(secondScope.setTag).toHaveBeenCalledWith('cold_start', false)
+    })
+
+    it('should tag the revision and region and add the runtime context', async () => {
+      const { configureRuntimeScope } = await importRuntimeContext()
+      const scope = mock<Scope>()
+
+      configureRuntimeScope(scope)
+
+      expect(scope.setTag).toHaveBeenCalledWith('function.revision', 'process-order-00042-abc')
+      expect(scope.setTag).toHaveBeenCalledWith('function.region', 'northamerica-northeast1')
+      expect(scope.setContext).toHaveBeenCalledWith(
+        'Function Runtime',
+        expect.objectContaining({ service: 'process-order', project: 'my-project' }),
+      )
+    })
+
+    it('should not tag the revision and region when unknown', async () => {
+      vi.stubEnv('K_REVISION', undefined)
+      vi.stubEnv('FUNCTION_REGION', undefined)
+      const { configureRuntimeScope } = await importRuntimeContext()
+      const scope = mock<Scope>()
+
+      configureRuntimeScope(scope)
+
+      expect(scope.setTag).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { scrubPayload, serializePayload } from '../scrub-payload'
+import { configureSentryWrappers } from '../sentry-wrapper-options'
+
+describe('scrub-payload', () => {
+  afterEach(() => {
+    configureSentryWrappers({})
+  })
+
+  describe('scrubPayload', () => {
+    it('should keep the payload untouched by default', () => {
+      const payload = { name: 'John', tags: ['a', 'b'], address: { city: 'Montreal' }, age: 42, createdAt: new Date(0) }
+
+      expect(scrubPayload(payload)).toEqual(payload)
+    })
+
+    it('should filter denied keys at any depth, case insensitive', () => {
+      const payload = { name: 'John', Email: 'john@example.com', contacts: [{ email: 'jane@example.com' }] }
+
+      expect(scrubPayload(payload, { denyKeys: ['email'] })).toEqual({
+        name: 'John',
+        Email: '[Filtered]',
+        contacts: [{ email: '[Filtered]' }],
+      })
+    })
+
+    it('should merge the global and wrapper denied keys', () => {
+      configureSentryWrappers({ scrub: { denyKeys: ['email'] } })
+
+      expect(
+        scrubPayload({ email: 'john@example.com', phone: '555-1234', name: 'John' }, { denyKeys: ['phone'] }),
+      ).toEqual({ email: '[Filtered]', phone: '[Filtered]', name: 'John' })
+    })
+
+    it('should only keep allowed keys and their children', () => {
+      const payload = {
+        id: 'user-1',
+        name: 'John',
+        status: { code: 'active' },
+        profile: { id: 'profile-1', bio: 'Hi' },
+      }
+
+      expect(scrubPayload(payload, { allowKeys: ['id', 'status'] })).toEqual({
+        id: 'user-1',
+        name: '[Filtered]',
+        status: { code: 'active' },
+        profile: { id: 'profile-1', bio: '[Filtered]' },
+      })
+    })
+
+    it('should prefer the wrapper allowed keys over the global ones', () => {
+      configureSentryWrappers({ scrub: { allowKeys: ['id'] } })
+
+      expect(scrubPayload({ id: 'user-1', name: 'John' }, { allowKeys: ['name'] })).toEqual({
+        id: '[Filtered]',
+        name: 'John',
+      })
+    })
+
+    it('should filter values matching a path mask', () => {
+      configureSentryWrappers({ scrub: { pathMasks: ['users/*/private/**'] } })
+
+      expect(scrubPayload({ token: 'secret' }, undefined, 'users/user-1/private/settings')).toBe('[Filtered]')
+      expect(scrubPayload({ name: 'John' }, undefined, 'users/user-1')).toEqual({ name: 'John' })
+    })
+
+    it('should filter fields matching a path mask', () => {
+      const payload = { name: 'John', cards: [{ number: '4242', brand: 'visa' }], 'address.line': '1 Main St' }
+
+      expect(
+        scrubPayload(payload, { pathMasks: ['users/*/cards/*/number', '/users/*/address.line'] }, '/users/user-1/'),
+      ).toEqual({
+        name: 'John',
+        cards: [{ number: '[Filtered]', brand: 'visa' }],
+        'address.line': '[Filtered]',
+      })
+    })
+
+    it('should truncate long strings', () => {
+      expect(scrubPayload({ bio: 'abcdefghij' }, { maxStringLength: 4 })).toEqual({
+        bio: 'abcd…[truncated 6 chars]',
+      })
+    })
+
+    it('should replace a payload too large by its truncated JSON', () => {
+      configureSentryWrappers({ scrub: { maxPayloadLength: 10 } })
+
+      expect(scrubPayload({ name: 'John Smith' })).toBe('{"name":"J…[truncated 11 chars]')
+    })
+
+    it('should keep undefined payloads', () => {
+      expect(scrubPayload(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('serializePayload', () => {
+    it('should serialize the scrubbed payload as indented JSON', () => {
+      expect(serializePayload({ name: 'John', email: 'john@example.com' }, { denyKeys: ['email'] })).toBe(
+        JSON.stringify({ name: 'John', email: '[Filtered]' }, null, 2),
+      )
+    })
+
+    it('should truncate a payload too large', () => {
+      expect(serializePayload({ name: 'John' }, { maxPayloadLength: 8 })).toBe('{\n  "nam…[truncated 12 chars]')
+    })
+
+    it('should keep undefined payloads', () => {
+      expect(serializePayload(undefined)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,88 @@
+import * as SentryNode from '@sentry/node'
+import { logger } from '@valian/function-logger'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { flushSentryEvents, startPeriodicSentryFlush } from '../sentry-flush'
+import { configureSentryWrappers } from '../sentry-wrapper-options'
+
+vi.mock('@sentry/node', () => ({
+  flush: vi.fn(),
+  getClient: vi.fn(),
+}))
+
+vi.mock('@valian/function-logger', () => ({
+  logger: { warn: vi.fn() },
+}))
+
+describe('sentry-flush', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  afterEach(() => {
+    configureSentryWrappers({})
+  })
+
+  describe('flushSentryEvents', () => {
+    it('should flush with the configured timeout', async () => {
+      vi.mocked(SentryNode.flush).mockResolvedValue(true)
+      configureSentryWrappers({ flush: { timeout: 3000 } })
+
+      await expect(flushSentryEvents()).resolves.toBe(true)
+
+      expect(SentryNode.flush).toHaveBeenCalledWith(3000)
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+
+    it('should warn when events are still queued after the timeout', async () => {
+      vi.mocked(SentryNode.flush).mockResolvedValue(false)
+      vi.mocked(SentryNode.getClient).mockReturnValue({} as ReturnType<typeof SentryNode.getClient>)
+
+      await expect(flushSentryEvents(1000)).resolves.toBe(false)
+
+      expect(logger.warn).toHaveBeenCalledWith('Sentry flush timed out after 1000ms with events still queued')
+    })
+
+    it('should not warn when Sentry is not initialized', async () => {
+      vi.mocked(SentryNode.flush).mockResolvedValue(false)
+
+      await flushSentryEvents(1000)
+
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('startPeriodicSentryFlush', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should flush periodically until stopped', () => {
+      vi.mocked(SentryNode.flush).mockResolvedValue(true)
+
+      const stop = startPeriodicSentryFlush(1000)
+      vi.advanceTimersByTime(2500)
+
+      expect(SentryNode.flush).toHaveBeenCalledTimes(2)
+
+      stop()
+      vi.advanceTimersByTime(2000)
+
+      expect(SentryNode.flush).toHaveBeenCalledTimes(2)
+    })
+
+    it('should flush every 10 seconds by default', () => {
+      vi.mocked(SentryNode.flush).mockResolvedValue(true)
+
+      const stop = startPeriodicSentryFlush()
+      vi.advanceTimersByTime(10_000)
+      stop()
+
+      expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+    })
+  })
+})
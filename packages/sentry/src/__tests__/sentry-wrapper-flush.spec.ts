@@ -0,0 +1,63 @@
+import * as SentryNode from '@sentry/node'
+import { type CloudEvent } from 'firebase-functions/core'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { sentryConfigurationWrapper, sentryWrapOnCustomEventPublished } from '../sentry-wrapper'
+
+vi.mock('@sentry/node', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@sentry/node')>()),
+  flush: vi.fn().mockResolvedValue(true),
+}))
+
+describe('sentry-wrapper flush with the Sentry SDK', () => {
+  beforeAll(() => {
+    SentryNode.init({
+      dsn: 'https://public@sentry.example.com/1',
+      defaultIntegrations: false,
+      transport: () => ({ send: () => Promise.resolve({}), flush: () => Promise.resolve(true) }),
+    })
+  })
+
+  it('should flush in on-error mode when the invocation captures an event without failing', async () => {
+    await sentryConfigurationWrapper(
+      { name: 'test-function' },
+      vi.fn(),
+      () => {
+        SentryNode.captureMessage('Slow invocation')
+        return Promise.resolve('result')
+      },
+      { flush: { mode: 'on-error' } },
+    )
+
+    expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+  })
+
+  it('should flush in on-error mode for errors handled without rethrowing', async () => {
+    const wrapper = sentryWrapOnCustomEventPublished(
+      {
+        name: 'eventarc-function',
+        flush: { mode: 'on-error' },
+        classifyError: () => ({ outcome: 'handled', rethrow: false }),
+      },
+      () => Promise.reject(new Error('Handled')),
+    )
+
+    await wrapper({
+      id: 'event-123',
+      type: 'com.example.order.created',
+      time: new Date().toISOString(),
+    } as CloudEvent<unknown>)
+
+    expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+  })
+
+  it('should not flush in on-error mode when only an earlier invocation captured an event', async () => {
+    SentryNode.captureMessage('Earlier event')
+
+    await sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), () => Promise.resolve('result'), {
+      flush: { mode: 'on-error' },
+    })
+
+    expect(SentryNode.flush).not.toHaveBeenCalled()
+  })
+})
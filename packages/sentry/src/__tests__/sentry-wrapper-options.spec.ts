@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { configureSentryWrappers, resolveErrorClassifier, resolveFlushOptions } from '../sentry-wrapper-options'
+
+describe('sentry-wrapper-options', () => {
+  afterEach(() => {
+    configureSentryWrappers({})
+  })
+
+  describe('resolveFlushOptions', () => {
+    it('should default to always flushing within 5 seconds', () => {
+      expect(resolveFlushOptions()).toEqual({ timeout: 5000, mode: 'always' })
+    })
+
+    it('should use the global options', () => {
+      configureSentryWrappers({ flush: { timeout: 2000, mode: 'on-error' } })
+
+      expect(resolveFlushOptions()).toEqual({ timeout: 2000, mode: 'on-error' })
+    })
+
+    it('should prefer the wrapper options over the global ones', () => {
+      configureSentryWrappers({ flush: { timeout: 2000, mode: 'on-error' } })
+
+      expect(resolveFlushOptions({ mode: 'never' })).toEqual({ timeout: 2000, mode: 'never' })
+    })
+  })
+
+  describe('resolveErrorClassifier', () => {
+    const error = new Error('Boom')
+
+    it('should classify errors as unhandled by default', () => {
+      expect(resolveErrorClassifier()(error)).toEqual({ outcome: 'unhandled' })
+    })
+
+    it('should prefer the wrapper classifier, then the global one, then the fallback', () => {
+      const fallback = vi.fn().mockReturnValue({ outcome: 'handled' })
+      configureSentryWrappers({ classifyError: () => ({ outcome: 'breadcrumb' }) })
+
+      expect(resolveErrorClassifier(() => ({ outcome: 'ignore' }), fallback)(error)).toEqual({ outcome: 'ignore' })
+      expect(resolveErrorClassifier(() => undefined, fallback)(error)).toEqual({ outcome: 'breadcrumb' })
+
+      configureSentryWrappers({})
+
+      expect(resolveErrorClassifier(undefined, fallback)(error)).toEqual({ outcome: 'handled' })
+    })
+  })
+})
@@ -1,52 +1,124 @@
+import { setTimeout } from 'node:timers/promises'
+
 import * as SentryCore from '@sentry/core'
-import { type Scope } from '@sentry/core'
+import { type Scope, type Span } from '@sentry/core'
 import * as SentryNode from '@sentry/node'
-import { type Logger } from '@valian/function-logger'
+import { getLogContext, getTraceContext, type Logger, logger } from '@valian/function-logger'
+import { type AlertEvent } from 'firebase-functions/alerts'
+import { type AppDistributionEvent } from 'firebase-functions/alerts/appDistribution'
+import { type BillingEvent } from 'firebase-functions/alerts/billing'
+import { type CrashlyticsEvent } from 'firebase-functions/alerts/crashlytics'
 import { type CloudEvent } from 'firebase-functions/core'
-import { type FirestoreEvent } from 'firebase-functions/firestore'
+import { type DatabaseEvent, type DataSnapshot } from 'firebase-functions/database'
+import { type FirestoreAuthEvent, type FirestoreEvent } from 'firebase-functions/firestore'
+import {
+  type CallableRequest,
+  type HttpsFunction,
+  HttpsError,
+  type Request as HttpsRequest,
+} from 'firebase-functions/https'
+import { type AuthBlockingEvent } from 'firebase-functions/identity'
 import { type MessagePublishedData } from 'firebase-functions/pubsub'
+import { type ConfigUpdateData } from 'firebase-functions/remoteConfig'
 import { type ScheduledEvent } from 'firebase-functions/scheduler'
+import { type StorageEvent } from 'firebase-functions/storage'
 import { type Request } from 'firebase-functions/tasks'
+import { type TestMatrixCompletedData } from 'firebase-functions/testLab'
 import { type Change, type EventContext } from 'firebase-functions/v1'
 import { type UserRecord } from 'firebase-functions/v1/auth'
-import { type DocumentSnapshot } from 'firebase-functions/v1/firestore'
+import { type CallableContext } from 'firebase-functions/v1/https'
+import { type DocumentSnapshot, type QueryDocumentSnapshot } from 'firebase-functions/v1/firestore'
 import { type Message } from 'firebase-functions/v1/pubsub'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { type ObjectMetadata } from 'firebase-functions/v1/storage'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { mock } from 'vitest-mock-extended'
 
+import { sentryLogBreadcrumbs } from '../log-breadcrumbs'
 import {
+  createSentryWrapper,
   markEventUnhandled,
   sentryConfigurationWrapper,
+  sentryOnCallV1Wrapper,
+  sentryOnCreateV1Wrapper,
+  sentryOnDeleteV1Wrapper,
+  sentryOnDatabaseChangeV1Wrapper,
+  sentryOnObjectChangeV1Wrapper,
   sentryOnPublishV1Wrapper,
+  sentryOnRequestV1Wrapper,
   sentryOnScheduleRunV1Wrapper,
+  sentryOnUpdateV1Wrapper,
   sentryOnUserChangeV1Wrapper,
   sentryOnWriteV1Wrapper,
+  sentryWrapBeforeUserCreated,
+  sentryWrapBeforeUserSignedIn,
+  sentryWrapOnAlertPublished,
+  sentryWrapOnAppDistributionAlert,
+  sentryWrapOnBillingAlert,
+  sentryWrapOnCall,
+  sentryWrapOnConfigUpdated,
+  sentryWrapOnCrashlyticsAlert,
+  sentryWrapOnCustomEventPublished,
   sentryWrapOnDocumentChange,
   sentryWrapOnMessagePublished,
+  sentryWrapOnObjectChange,
+  sentryWrapOnRequest,
   sentryWrapOnSchedule,
   sentryWrapOnTaskDispatched,
+  sentryWrapOnTestMatrixCompleted,
+  sentryWrapOnValueChange,
 } from '../sentry-wrapper'
+import { configureSentryWrappers, type SentryWrapperParams } from '../sentry-wrapper-options'
 
 let mockScope: ReturnType<typeof mock<Scope>>
+let mockSpan: ReturnType<typeof mock<Span>>
+
+const createDataSnapshot = (value: unknown) => {
+  const numChildren = value !== null && typeof value === 'object' ? Object.keys(value).length : 0
+  return {
+    exists: () => value !== null,
+    numChildren: () => numChildren,
+    hasChildren: () => numChildren > 0,
+    val: () => value,
+  } as unknown as DataSnapshot
+}
 
 vi.mock('@sentry/node', () => ({
+  addBreadcrumb: vi.fn(),
   captureException: vi.fn(),
+  captureMessage: vi.fn(),
+  continueTrace: vi.fn((_options: unknown, callback: () => unknown) => callback()),
   flush: vi.fn().mockResolvedValue(true),
-  startSpan: vi.fn(async (_options: SentryCore.StartSpanOptions, callback: () => Promise<unknown>) => await callback()),
+  getActiveSpan: vi.fn(),
+  getClient: vi.fn(),
+  getCurrentScope: vi.fn(() => mockScope),
+  setHttpStatus: vi.fn(),
+  startSpan: vi.fn(
+    async (_options: SentryCore.StartSpanOptions, callback: (span: Span) => Promise<unknown>) =>
+      await callback(mockSpan),
+  ),
+  withIsolationScope: vi.fn(async (callback: (scope: Scope) => Promise<unknown>) => await callback(mock<Scope>())),
+  withMonitor: vi.fn((_monitorSlug: string, callback: () => unknown) => callback()),
   withScope: vi.fn(async (callback: (scope: Scope) => Promise<unknown>) => await callback(mockScope)),
 }))
 
-vi.mock('@valian/function-logger', () => ({
-  logger: mock<Logger>(),
+vi.mock('@valian/function-logger', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@valian/function-logger')>()),
+  logger: (await import('vitest-mock-extended')).mock<Logger>(),
 }))
 
 vi.mock('@sentry/core', () => ({
   addExceptionMechanism: vi.fn(),
+  spanIsSampled: vi.fn(() => true),
 }))
 
+const SPAN_TRACE_ID = '12345678901234567890123456789012'
+const SPAN_ID = '1234567890123456'
+
 describe('sentry-wrapper', () => {
   beforeEach(() => {
     mockScope = mock<Scope>()
+    mockSpan = mock<Span>()
+    mockSpan.spanContext.mockReturnValue({ traceId: SPAN_TRACE_ID, spanId: SPAN_ID, traceFlags: 1 })
     vi.clearAllMocks()
   })
 
@@ -84,6 +156,34 @@ describe('sentry-wrapper', () => {
       expect(SentryNode.flush).toHaveBeenCalledWith(5000)
     })
 
+    it('should clear the deadline timer once the work is done', async () => {
+      vi.useFakeTimers()
+      try {
+        await sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), vi.fn().mockResolvedValue('result'), {
+          deadline: { timeoutSeconds: 60 },
+        })
+
+        expect(vi.getTimerCount()).toBe(0)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should attach the resource usage to the span', async () => {
+      await sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), vi.fn().mockResolvedValue('result'))
+
+      expect(mockSpan.setAttributes).toHaveBeenCalledWith(
+        expect.objectContaining({ 'resource.wall_time_ms': expect.any(Number) }),
+      )
+    })
+
+    it('should add the runtime context', async () => {
+      await sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), vi.fn().mockResolvedValue('result'))
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('cold_start', expect.any(Boolean))
+      expect(mockScope.setContext).toHaveBeenCalledWith('Function Runtime', expect.any(Object))
+    })
+
     it('should flush even when work throws', async () => {
       const error = new Error('Work failed')
       const work = vi.fn().mockRejectedValue(error)
@@ -95,6 +195,51 @@ describe('sentry-wrapper', () => {
       expect(SentryNode.flush).toHaveBeenCalledWith(5000)
     })
 
+    it('should flush with the given timeout', async () => {
+      const work = vi.fn().mockResolvedValue('result')
+
+      await sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), work, { flush: { timeout: 1000 } })
+
+      expect(SentryNode.flush).toHaveBeenCalledWith(1000)
+    })
+
+    it('should not flush on success in on-error mode', async () => {
+      const work = vi.fn().mockResolvedValue('result')
+
+      await sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), work, { flush: { mode: 'on-error' } })
+
+      expect(SentryNode.flush).not.toHaveBeenCalled()
+    })
+
+    it('should flush on failure in on-error mode', async () => {
+      const work = vi.fn().mockRejectedValue(new Error('Work failed'))
+
+      await expect(
+        sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), work, { flush: { mode: 'on-error' } }),
+      ).rejects.toThrow('Work failed')
+
+      expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+    })
+
+    it('should never flush in never mode', async () => {
+      const work = vi.fn().mockRejectedValue(new Error('Work failed'))
+
+      await expect(
+        sentryConfigurationWrapper({ name: 'test-function' }, vi.fn(), work, { flush: { mode: 'never' } }),
+      ).rejects.toThrow('Work failed')
+
+      expect(SentryNode.flush).not.toHaveBeenCalled()
+    })
+
+    it('should pass wrapper flush options through', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnTaskDispatched({ name: 'task-v2-function', flush: { timeout: 2000 } }, handler)
+
+      await wrapper({ id: 'task-123', queueName: 'test-queue', retryCount: 0, data: {} } as Request<object>)
+
+      expect(SentryNode.flush).toHaveBeenCalledWith(2000)
+    })
+
     it('should capture unhandled exceptions in production through wrapper', async () => {
       const originalEnv = process.env.NODE_ENV
       process.env.NODE_ENV = 'production'
@@ -232,6 +377,32 @@ describe('sentry-wrapper', () => {
       })
       expect(mockScope.setContext).toHaveBeenCalledWith('PubSub Message', { data: 'test' })
     })
+
+    it('should continue the trace from PubSub v1 message attributes', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnPublishV1Wrapper({ name: 'pubsub-function' }, handler)
+
+      const message = {
+        json: {},
+        data: '',
+        attributes: { 'sentry-trace': 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+      } as unknown as Message
+
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'google.pubsub.topic.publish',
+        resource: { service: 'pubsub', name: 'projects/test/topics/test-topic' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+      }
+
+      await wrapper(message, context)
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+        expect.any(Function),
+      )
+    })
   })
 
   describe('sentryOnWriteV1Wrapper', () => {
@@ -273,13 +444,15 @@ describe('sentry-wrapper', () => {
       const wrapper = sentryOnWriteV1Wrapper({ name: 'firestore-function' }, handler)
 
       const beforeSnapshot = {
+        exists: true,
         ref: { id: 'doc-123', path: 'collection/doc-123' },
-        data: () => ({ field: 'before' }),
+        data: () => ({ field: 'before', unchanged: true }),
       } as unknown as DocumentSnapshot
 
       const afterSnapshot = {
+        exists: true,
         ref: { id: 'doc-123', path: 'collection/doc-123' },
-        data: () => ({ field: 'after' }),
+        data: () => ({ field: 'after', unchanged: true }),
       } as unknown as DocumentSnapshot
 
       const change: Change<DocumentSnapshot> = {
@@ -297,12 +470,90 @@ describe('sentry-wrapper', () => {
 
       await wrapper(change, context)
 
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'update')
       expect(mockScope.setContext).toHaveBeenCalledWith('Firestore Document', {
-        param: { docId: 'doc-123' },
-        id: 'doc-123',
+        document: 'collection/{docId}',
+        params: { docId: 'doc-123' },
         path: 'collection/doc-123',
-        before: JSON.stringify({ field: 'before' }, null, 2),
-        after: JSON.stringify({ field: 'after' }, null, 2),
+        id: 'doc-123',
+        changeType: 'update',
+        changedFields: ['field'],
+        before: { field: 'before' },
+        after: { field: 'after' },
+      })
+    })
+
+    it('should tag deletions for Firestore v1 writes', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnWriteV1Wrapper({ name: 'firestore-function' }, handler)
+
+      const change: Change<DocumentSnapshot> = {
+        before: {
+          exists: true,
+          ref: { id: 'doc-123', path: 'collection/doc-123' },
+          data: () => ({ field: 'before' }),
+        } as unknown as DocumentSnapshot,
+        after: {
+          exists: false,
+          ref: { id: 'doc-123', path: 'collection/doc-123' },
+          data: () => undefined,
+        } as unknown as DocumentSnapshot,
+      }
+
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'providers/cloud.firestore/eventTypes/document.write',
+        resource: { service: 'firestore', name: 'projects/test/databases/(default)/documents/collection/doc-123' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: { docId: 'doc-123' },
+      }
+
+      await wrapper(change, context)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'delete')
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Firestore Document',
+        expect.objectContaining({ changeType: 'delete', changedFields: ['field'], before: { field: 'before' } }),
+      )
+    })
+
+    it('should scrub the Firestore v1 document data', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnWriteV1Wrapper(
+        { name: 'firestore-function', scrub: { denyKeys: ['email'], pathMasks: ['users/*/address'] } },
+        handler,
+      )
+
+      const before = {
+        exists: true,
+        ref: { id: 'user-1', path: 'users/user-1' },
+        data: () => ({ name: 'John', email: 'john@example.com', address: { city: 'Montreal' } }),
+      } as unknown as DocumentSnapshot
+      const after = {
+        exists: true,
+        ref: { id: 'user-1', path: 'users/user-1' },
+        data: () => ({ name: 'Jane', email: 'jane@example.com', address: { city: 'Quebec' } }),
+      } as unknown as DocumentSnapshot
+
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'providers/cloud.firestore/eventTypes/document.write',
+        resource: { service: 'firestore', name: 'projects/test/databases/(default)/documents/users/user-1' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: { userId: 'user-1' },
+      }
+
+      await wrapper({ before, after }, context)
+
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firestore Document', {
+        document: 'users/{userId}',
+        params: { userId: 'user-1' },
+        path: 'users/user-1',
+        id: 'user-1',
+        changeType: 'update',
+        changedFields: ['address.city', 'email', 'name'],
+        before: { name: 'John', email: '[Filtered]', address: '[Filtered]' },
+        after: { name: 'Jane', email: '[Filtered]', address: '[Filtered]' },
       })
     })
   })
@@ -404,7 +655,7 @@ describe('sentry-wrapper', () => {
         subject: 'documents/collection/doc-123',
         time: '2023-01-01T00:00:00.000Z',
         document: 'projects/test/databases/(default)/documents/collection/doc-123',
-        data: { foo: 'bar' } as { foo: string },
+        data: { exists: true, data: () => ({ foo: 'bar' }) } as unknown as { foo: string },
         params: { docId: 'doc-123' },
       } as FirestoreEvent<{ foo: string }, { docId: string }>
 
@@ -424,8 +675,8 @@ describe('sentry-wrapper', () => {
         source: 'projects/test/databases/(default)',
         subject: 'documents/collection/doc-123',
         time: '2023-01-01T00:00:00.000Z',
-        document: 'projects/test/databases/(default)/documents/collection/doc-123',
-        data: { data: 'test' } as { data: string },
+        document: 'collection/doc-123',
+        data: { exists: true, data: () => ({ data: 'test' }) } as unknown as { data: string },
         params: { docId: 'doc-123' },
       } as FirestoreEvent<{ data: string }, { docId: string }>
 
@@ -440,11 +691,116 @@ describe('sentry-wrapper', () => {
         subject: 'documents/collection/doc-123',
         timestamp: '2023-01-01T00:00:00.000Z',
       })
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'create')
       expect(mockScope.setContext).toHaveBeenCalledWith('Firestore Document', {
-        document: 'projects/test/databases/(default)/documents/collection/doc-123',
-        data: { data: 'test' },
+        document: 'collection/{docId}',
+        params: { docId: 'doc-123' },
+        path: 'collection/doc-123',
+        id: 'doc-123',
+        changeType: 'create',
+        changedFields: ['data'],
+        after: { data: 'test' },
       })
     })
+
+    it('should diff the Firestore v2 document change', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnDocumentChange({ name: 'firestore-v2-function' }, handler)
+      const snapshot = (data: Record<string, unknown>) => ({ exists: true, data: () => data })
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.firestore.document.v1.updated',
+        source: 'projects/test/databases/(default)',
+        subject: 'documents/users/user-1',
+        time: '2023-01-01T00:00:00.000Z',
+        document: 'users/user-1',
+        data: { before: snapshot({ name: 'John', age: 30 }), after: snapshot({ name: 'John', age: 31 }) },
+        params: { uid: 'user-1' },
+      } as unknown as FirestoreEvent<Change<DocumentSnapshot>, { uid: string }>
+
+      await wrapper(event)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'update')
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Firestore Document',
+        expect.objectContaining({
+          document: 'users/{uid}',
+          changedFields: ['age'],
+          before: { age: 30 },
+          after: { age: 31 },
+        }),
+      )
+    })
+
+    it('should set the Sentry user from the Firestore v2 auth context', async () => {
+      const handler = vi.fn<(event: FirestoreAuthEvent<DocumentSnapshot, { uid: string }>) => Promise<string>>()
+      const wrapper = sentryWrapOnDocumentChange({ name: 'firestore-v2-function' }, handler)
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.firestore.document.v1.created.withAuthContext',
+        source: 'projects/test/databases/(default)',
+        subject: 'documents/users/user-1',
+        time: '2023-01-01T00:00:00.000Z',
+        document: 'users/user-1',
+        data: { exists: true, data: () => ({ name: 'John' }) },
+        params: { uid: 'user-1' },
+        authType: 'app_user',
+        authId: 'user-1',
+      } as unknown as FirestoreAuthEvent<DocumentSnapshot, { uid: string }>
+
+      await wrapper(event)
+
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(mockScope.setTag).toHaveBeenCalledWith('auth.type', 'app_user')
+      expect(mockScope.setUser).toHaveBeenCalledWith({ id: 'user-1' })
+    })
+
+    it('should not set the Sentry user without an auth context', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnDocumentChange({ name: 'firestore-v2-function' }, handler)
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.firestore.document.v1.created',
+        source: 'projects/test/databases/(default)',
+        subject: 'documents/users/user-1',
+        time: '2023-01-01T00:00:00.000Z',
+        document: 'users/user-1',
+        data: { exists: true, data: () => ({ name: 'John' }) },
+        params: { uid: 'user-1' },
+      } as unknown as FirestoreEvent<DocumentSnapshot, { uid: string }>
+
+      await wrapper(event)
+
+      expect(mockScope.setTag).not.toHaveBeenCalledWith('auth.type', expect.anything())
+      expect(mockScope.setUser).not.toHaveBeenCalled()
+    })
+
+    it('should record the deleted Firestore v2 document', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnDocumentChange({ name: 'firestore-v2-function' }, handler)
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.firestore.document.v1.deleted',
+        source: 'projects/test/databases/(default)',
+        subject: 'documents/users/user-1',
+        time: '2023-01-01T00:00:00.000Z',
+        document: 'users/user-1',
+        data: { exists: true, data: () => ({ name: 'John' }) },
+        params: { uid: 'user-1' },
+      } as unknown as FirestoreEvent<DocumentSnapshot, { uid: string }>
+
+      await wrapper(event)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'delete')
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Firestore Document',
+        expect.objectContaining({ changeType: 'delete', before: { name: 'John' } }),
+      )
+    })
   })
 
   describe('sentryWrapOnMessagePublished', () => {
@@ -498,6 +854,53 @@ describe('sentry-wrapper', () => {
       expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'pubsub-v2-function')
       expect(mockScope.setContext).toHaveBeenCalledWith('PubSub Message', { data: 'test-data' })
     })
+
+    it('should truncate a PubSub v2 message too large', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnMessagePublished(
+        { name: 'pubsub-v2-function', scrub: { maxPayloadLength: 10 } },
+        handler,
+      )
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.pubsub.topic.v1.messagePublished',
+        source: 'projects/test/topics/test-topic',
+        time: '2023-01-01T00:00:00.000Z',
+        data: { message: { json: { data: 'test-data' }, attributes: {} } },
+      } as unknown as CloudEvent<MessagePublishedData<{ data: string }>>
+
+      await wrapper(event)
+
+      expect(mockScope.setContext).toHaveBeenCalledWith('PubSub Message', {
+        json: '{"data":"t…[truncated 10 chars]',
+      })
+    })
+
+    it('should continue the trace from PubSub v2 message attributes', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnMessagePublished({ name: 'pubsub-v2-function' }, handler)
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.pubsub.topic.v1.messagePublished',
+        source: 'projects/test/topics/test-topic',
+        time: '2023-01-01T00:00:00.000Z',
+        data: {
+          message: {
+            json: {},
+            attributes: { 'sentry-trace': 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+          },
+        },
+      } as unknown as CloudEvent<MessagePublishedData<Record<string, unknown>>>
+
+      await wrapper(event)
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+        expect.any(Function),
+      )
+    })
   })
 
   describe('sentryWrapOnSchedule', () => {
@@ -617,5 +1020,1712 @@ describe('sentry-wrapper', () => {
         expect.any(Function),
       )
     })
+
+    it('should continue the trace from the task headers', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnTaskDispatched({ name: 'task-v2-function' }, handler)
+
+      const request = {
+        id: 'task-123',
+        queueName: 'test-queue',
+        retryCount: 0,
+        headers: { 'sentry-trace': 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+        data: { foo: 'bar' },
+      } as unknown as Request<{ foo: string }>
+
+      await wrapper(request)
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+        expect.any(Function),
+      )
+    })
+  })
+
+  describe('cron monitor check-ins', () => {
+    const event = { scheduleTime: '2023-01-01T00:00:00.000Z', jobName: 'daily-report' } as ScheduledEvent
+
+    it('should send check-ins under the function name', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+
+      await sentryWrapOnSchedule({ name: 'daily-report' }, handler)(event)
+
+      expect(SentryNode.withMonitor).toHaveBeenCalledWith('daily-report', expect.any(Function))
+      expect(handler).toHaveBeenCalledWith(event)
+    })
+
+    it('should upsert the monitor config', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnSchedule(
+        { name: 'daily-report', monitor: { schedule: '0 8 * * *', timezone: 'America/Toronto', maxRuntime: 10 } },
+        handler,
+      )
+
+      await wrapper(event)
+
+      expect(SentryNode.withMonitor).toHaveBeenCalledWith('daily-report', expect.any(Function), {
+        schedule: { type: 'crontab', value: '0 8 * * *' },
+        timezone: 'America/Toronto',
+        maxRuntime: 10,
+      })
+    })
+
+    it('should not send check-ins when disabled', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnScheduleRunV1Wrapper({ name: 'daily-report', monitor: false }, handler)
+
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'google.pubsub.topic.publish',
+        resource: { service: 'pubsub', name: 'projects/test/topics/test-topic' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+      }
+
+      await expect(wrapper(context)).resolves.toBe('success')
+
+      expect(SentryNode.withMonitor).not.toHaveBeenCalled()
+    })
+
+    it('should send v1 check-ins when enabled', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnScheduleRunV1Wrapper({ name: 'daily-report', monitor: true }, handler)
+
+      await wrapper({
+        eventId: 'event-123',
+        eventType: 'google.pubsub.topic.publish',
+        resource: { service: 'pubsub', name: 'projects/test/topics/test-topic' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+      })
+
+      expect(SentryNode.withMonitor).toHaveBeenCalledWith('daily-report', expect.any(Function))
+    })
+  })
+
+  describe('createSentryWrapper', () => {
+    type ExportEvent = { id: string; table: string; attempt: number }
+
+    const sentryWrapOnExport = createSentryWrapper<[ExportEvent]>({
+      spanOptions: (options, event) => ({ name: options.name, op: 'on-export', attributes: { table: event.table } }),
+      configureScope: (scope, _options, event) => {
+        scope.setContext('Export Event', { id: event.id, table: event.table })
+      },
+      retryAttempt: (event) => ({ attempt: event.attempt }),
+    })
+
+    const event: ExportEvent = { id: 'export-1', table: 'orders', attempt: 1 }
+
+    it('should wrap the handler like the built-in wrappers', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+
+      await expect(sentryWrapOnExport({ name: 'export-function' }, handler)(event)).resolves.toBe('success')
+
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'export-function', op: 'on-export', attributes: { table: 'orders' } },
+        expect.any(Function),
+      )
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'export-function')
+      expect(mockScope.setTag).toHaveBeenCalledWith('retry.attempt', 1)
+      expect(mockScope.setContext).toHaveBeenCalledWith('Export Event', { id: 'export-1', table: 'orders' })
+      expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+    })
+
+    it('should capture unhandled exceptions', async () => {
+      const error = new Error('Export failed')
+      const handler = vi.fn().mockRejectedValue(error)
+
+      await expect(sentryWrapOnExport({ name: 'export-function' }, handler)(event)).rejects.toThrow(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+    })
+
+    it('should honor the retry options', async () => {
+      const error = new Error('Export failed')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnExport({ name: 'export-function', retry: { reportFromAttempt: 2 } }, handler)
+
+      await expect(wrapper(event)).rejects.toThrow(error)
+
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+    })
+
+    it('should tag the given version without retry attempt', async () => {
+      const sentryWrapOnLegacyEvent = createSentryWrapper<[string, EventContext]>({
+        spanOptions: (options, _data, context) => ({ name: options.name, op: context.eventType }),
+        version: 'v1',
+      })
+      const error = new Error('Boom')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnLegacyEvent(
+        { name: 'legacy-function', classifyError: () => ({ outcome: 'ignore' }) },
+        handler,
+      )
+
+      await expect(
+        wrapper('data', {
+          eventId: 'event-123',
+          eventType: 'providers/legacy/eventTypes/event',
+          resource: { service: 'legacy', name: 'legacy' },
+          timestamp: '2023-01-01T00:00:00.000Z',
+          params: {},
+        }),
+      ).rejects.toThrow(error)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v1')
+      expect(mockScope.setTag).not.toHaveBeenCalledWith('retry.attempt', expect.anything())
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+    })
+
+    it('should pass the custom options of the trigger', async () => {
+      type ExportWrapperParams = SentryWrapperParams & { dataset: string }
+      const sentryWrapOnDatasetExport = createSentryWrapper<[ExportEvent], ExportWrapperParams>({
+        spanOptions: (options) => ({ name: options.name, op: 'on-export' }),
+        configureScope: (scope, options) => {
+          scope.setTag('export.dataset', options.dataset)
+        },
+      })
+
+      await sentryWrapOnDatasetExport({ name: 'export-function', dataset: 'analytics' }, vi.fn())(event)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('export.dataset', 'analytics')
+    })
+
+    it('should correlate the logs with the trace of the trigger', async () => {
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+      const sentryWrapOnTracedExport = createSentryWrapper<[ExportEvent & { traceparent: string }]>({
+        spanOptions: (options) => ({ name: options.name, op: 'on-export' }),
+        traceCarrier: (tracedEvent) => tracedEvent,
+      })
+      const handler = vi.fn(() => Promise.resolve(getTraceContext()))
+
+      await expect(
+        sentryWrapOnTracedExport(
+          { name: 'export-function' },
+          handler,
+        )({
+          ...event,
+          traceparent: `00-${traceId}-00f067aa0ba902b7-01`,
+        }),
+      ).resolves.toEqual({ traceId, spanId: '00f067aa0ba902b7', sampled: true })
+    })
+
+    it('should rethrow every error of request/response style triggers', async () => {
+      const sentryWrapOnExportRequest = createSentryWrapper<[ExportEvent]>({
+        spanOptions: (options) => ({ name: options.name, op: 'on-export' }),
+        alwaysRethrow: true,
+      })
+      const error = new Error('Export failed')
+      const wrapper = sentryWrapOnExportRequest(
+        { name: 'export-function', classifyError: () => ({ outcome: 'handled', rethrow: false }) },
+        vi.fn().mockRejectedValue(error),
+      )
+
+      await expect(wrapper(event)).rejects.toThrow(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.anything())
+    })
+  })
+
+  describe('error classification', () => {
+    const context: EventContext = {
+      eventId: 'event-123',
+      eventType: 'google.pubsub.topic.publish',
+      resource: { service: 'pubsub', name: 'projects/test/topics/test-topic' },
+      timestamp: '2023-01-01T00:00:00.000Z',
+      params: {},
+    }
+
+    afterEach(() => {
+      configureSentryWrappers({})
+    })
+
+    it('should ignore errors without rethrowing', async () => {
+      const handler = vi.fn().mockRejectedValue(new Error('Duplicate event'))
+      const wrapper = sentryOnScheduleRunV1Wrapper(
+        { name: 'schedule-function', classifyError: () => ({ outcome: 'ignore', rethrow: false }) },
+        handler,
+      )
+
+      await expect(wrapper(context)).resolves.toBeUndefined()
+
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+      expect(SentryNode.addBreadcrumb).not.toHaveBeenCalled()
+    })
+
+    it('should add a breadcrumb', async () => {
+      const error = new Error('Transient error')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryOnScheduleRunV1Wrapper(
+        { name: 'schedule-function', classifyError: () => ({ outcome: 'breadcrumb', extra: { reason: 'busy' } }) },
+        handler,
+      )
+
+      await expect(wrapper(context)).rejects.toThrow(error)
+
+      expect(SentryNode.addBreadcrumb).toHaveBeenCalledWith({
+        category: 'error',
+        level: undefined,
+        message: 'Transient error',
+        data: { reason: 'busy' },
+      })
+    })
+
+    it('should add a breadcrumb for non-error values', async () => {
+      const handler = vi.fn().mockRejectedValue('Transient error')
+      const wrapper = sentryWrapOnSchedule(
+        { name: 'schedule-function', classifyError: () => ({ outcome: 'breadcrumb' }) },
+        handler,
+      )
+
+      await expect(wrapper({ scheduleTime: '2023-01-01T00:00:00.000Z' } as ScheduledEvent)).rejects.toBe(
+        'Transient error',
+      )
+
+      expect(SentryNode.addBreadcrumb).toHaveBeenCalledWith(expect.objectContaining({ message: 'Transient error' }))
+    })
+
+    it('should capture handled events with the global classifier', async () => {
+      const error = new Error('Payment declined')
+      configureSentryWrappers({ classifyError: () => ({ outcome: 'handled', level: 'info', tags: { payment: true } }) })
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryOnScheduleRunV1Wrapper({ name: 'schedule-function' }, handler)
+
+      await expect(wrapper(context)).rejects.toThrow(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, {
+        level: 'info',
+        tags: { payment: true },
+        extra: undefined,
+      })
+    })
+
+    it('should add the classification tags and extra to unhandled events', async () => {
+      const error = new Error('Boom')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryOnScheduleRunV1Wrapper(
+        {
+          name: 'schedule-function',
+          classifyError: () => ({ outcome: 'unhandled', tags: { team: 'billing' }, extra: { orderId: '123' } }),
+        },
+        handler,
+      )
+
+      await expect(wrapper(context)).rejects.toThrow(error)
+
+      const captureContext = vi.mocked(SentryNode.captureException).mock.calls[0][1] as (scope: Scope) => Scope
+      captureContext(mockScope)
+      expect(mockScope.setTags).toHaveBeenCalledWith({ team: 'billing' })
+      expect(mockScope.setExtras).toHaveBeenCalledWith({ orderId: '123' })
+    })
+
+    it('should report failures that are not rethrown regardless of the retry options', async () => {
+      const error = new Error('Never succeeds')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnTaskDispatched(
+        {
+          name: 'task-v2-function',
+          retry: { maxAttempts: 3 },
+          classifyError: () => ({ outcome: 'handled', rethrow: false }),
+        },
+        handler,
+      )
+
+      await expect(
+        wrapper({ id: 'task-123', queueName: 'test-queue', retryCount: 0, data: {} } as Request<object>),
+      ).resolves.toBeUndefined()
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.objectContaining({}))
+    })
+  })
+
+  describe('retry-aware reporting', () => {
+    it('should tag the task attempt and skip the failures before the final attempt', async () => {
+      const error = new Error('Transient failure')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnTaskDispatched({ name: 'task-v2-function', retry: { maxAttempts: 3 } }, handler)
+
+      const request = { id: 'task-123', queueName: 'test-queue', retryCount: 1, data: {} } as Request<object>
+
+      await expect(wrapper(request)).rejects.toThrow(error)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('retry.attempt', 2)
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+
+      await expect(wrapper({ ...request, retryCount: 2 })).rejects.toThrow(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+    })
+
+    it('should use the PubSub v2 delivery attempt', async () => {
+      const error = new Error('Transient failure')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnMessagePublished(
+        { name: 'pubsub-v2-function', retry: { reportFromAttempt: 2 } },
+        handler,
+      )
+
+      const event = {
+        id: 'event-123',
+        type: 'google.cloud.pubsub.topic.v1.messagePublished',
+        source: 'projects/test/topics/test-topic',
+        time: new Date().toISOString(),
+        data: { message: { json: {}, attributes: {} }, deliveryAttempt: 1 },
+      } as unknown as CloudEvent<MessagePublishedData<Record<string, unknown>>>
+
+      await expect(wrapper(event)).rejects.toThrow(error)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('retry.attempt', 1)
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+    })
+
+    it('should use the v1 event age', async () => {
+      const error = new Error('Transient failure')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryOnScheduleRunV1Wrapper(
+        { name: 'schedule-function', retry: { reportAfterEventAge: 3_600_000 } },
+        handler,
+      )
+
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'google.pubsub.topic.publish',
+        resource: { service: 'pubsub', name: 'projects/test/topics/test-topic' },
+        timestamp: new Date().toISOString(),
+        params: {},
+      }
+
+      await expect(wrapper(context)).rejects.toThrow(error)
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+
+      await expect(wrapper({ ...context, timestamp: '2023-01-01T00:00:00.000Z' })).rejects.toThrow(error)
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+    })
+  })
+
+  describe('log trace correlation', () => {
+    const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+
+    it('should correlate the logs with the Cloud Trace header of a request', async () => {
+      const handler = vi.fn(() => {
+        expect(getTraceContext()).toEqual({ traceId: TRACE_ID, spanId: '000000000000007b', sampled: true })
+        return Promise.resolve()
+      })
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+      const request = {
+        method: 'GET',
+        path: '/',
+        headers: { 'x-cloud-trace-context': `${TRACE_ID}/123;o=1` },
+      } as unknown as HttpsRequest
+
+      await wrapper(request, { statusCode: 200 } as Parameters<HttpsFunction>[1])
+
+      expect(handler).toHaveBeenCalled()
+    })
+
+    it('should correlate the logs with the traceparent header of a callable request', async () => {
+      const handler = vi.fn(() => {
+        expect(getTraceContext()).toEqual({ traceId: TRACE_ID, spanId: '00f067aa0ba902b7', sampled: false })
+        return Promise.resolve('success')
+      })
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+      const request = {
+        data: {},
+        acceptsStreaming: false,
+        rawRequest: { headers: { traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-00` } },
+      } as unknown as CallableRequest
+
+      await wrapper(request)
+
+      expect(handler).toHaveBeenCalled()
+    })
+
+    it('should correlate the logs with the traceparent attribute of an event', async () => {
+      const handler = vi.fn(() => {
+        expect(getTraceContext()).toEqual({ traceId: TRACE_ID, spanId: '00f067aa0ba902b7', sampled: true })
+        return Promise.resolve('success')
+      })
+      const wrapper = sentryWrapOnCustomEventPublished({ name: 'eventarc-function' }, handler)
+      const event = {
+        id: 'event-123',
+        type: 'com.example.order.created',
+        source: 'orders-service',
+        time: '2023-01-01T00:00:00.000Z',
+        traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-01`,
+        data: {},
+      } as unknown as CloudEvent<unknown>
+
+      await wrapper(event)
+
+      expect(handler).toHaveBeenCalled()
+    })
+
+    it('should correlate the logs with the span when the invocation has no trace', async () => {
+      const handler = vi.fn(() => {
+        expect(getTraceContext()).toEqual({ traceId: SPAN_TRACE_ID, spanId: SPAN_ID, sampled: true })
+        return Promise.resolve('success')
+      })
+      const wrapper = sentryOnScheduleRunV1Wrapper({ name: 'schedule-function' }, handler)
+
+      await wrapper({
+        eventId: 'event-123',
+        eventType: 'google.pubsub.topic.publish',
+        resource: { service: 'pubsub', name: 'projects/test/topics/firebase-schedule-schedule-function' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+      })
+
+      expect(handler).toHaveBeenCalled()
+      expect(getTraceContext()).toBeUndefined()
+    })
+  })
+
+  describe('log context', () => {
+    it('should add the function, event and document of a Firestore event to the log context', async () => {
+      const handler = vi.fn(() => {
+        expect(getLogContext()).toEqual({
+          functionName: 'firestore-v2-function',
+          eventId: 'event-123',
+          documentPath: 'users/abc',
+          uid: 'user-123',
+        })
+        return Promise.resolve('success')
+      })
+      const wrapper = sentryWrapOnDocumentChange({ name: 'firestore-v2-function' }, handler)
+
+      await wrapper({
+        id: 'event-123',
+        type: 'google.cloud.firestore.document.v1.written',
+        time: '2023-01-01T00:00:00.000Z',
+        document: 'users/abc',
+        params: {},
+        data: { exists: true, data: () => ({ name: 'John' }) },
+        authType: 'unknown',
+        authId: 'user-123',
+      } as unknown as FirestoreAuthEvent<unknown>)
+
+      expect(handler).toHaveBeenCalled()
+      expect(getLogContext()).toBeUndefined()
+    })
+
+    it('should add the user of a v1 auth trigger to the log context', async () => {
+      const handler = vi.fn(() => {
+        expect(getLogContext()).toEqual({ functionName: 'auth-function', eventId: 'event-123', uid: 'user-123' })
+        return Promise.resolve('success')
+      })
+      const wrapper = sentryOnUserChangeV1Wrapper({ name: 'auth-function' }, handler)
+
+      await wrapper({ uid: 'user-123' } as UserRecord, {
+        eventId: 'event-123',
+        eventType: 'providers/firebase.auth/eventTypes/user.create',
+        resource: { service: 'firebaseauth.googleapis.com', name: 'projects/test' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+      })
+
+      expect(handler).toHaveBeenCalled()
+    })
+
+    it('should isolate the log contexts of concurrent invocations', async () => {
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, async (request: CallableRequest<number>) => {
+        await setTimeout(request.data)
+        return getLogContext()
+      })
+      const invoke = (uid: string, delay: number) =>
+        wrapper({
+          data: delay,
+          acceptsStreaming: false,
+          rawRequest: { headers: {} },
+          auth: { uid },
+        } as unknown as CallableRequest<number>)
+
+      await expect(Promise.all([invoke('user-1', 10), invoke('user-2', 0)])).resolves.toEqual([
+        { functionName: 'callable-function', uid: 'user-1' },
+        { functionName: 'callable-function', uid: 'user-2' },
+      ])
+    })
+  })
+
+  describe('logged errors', () => {
+    const logListener = sentryLogBreadcrumbs({ captureErrors: true })
+    const createCallableRequest = () =>
+      ({ data: {}, acceptsStreaming: false, rawRequest: { headers: {} } }) as unknown as CallableRequest
+
+    beforeEach(() => {
+      vi.mocked(logger.error).mockImplementation((message: string, error: Error) => {
+        logListener({ level: 'error', message, error })
+      })
+    })
+
+    afterEach(() => {
+      vi.mocked(logger.error).mockReset()
+    })
+
+    it('should only capture a logged error thrown again as an unhandled exception', async () => {
+      const error = new Error('Failed')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, () => {
+        logger.error('failed', error)
+        throw error
+      })
+
+      await expect(wrapper(createCallableRequest())).rejects.toThrow(error)
+
+      expect(logger.error).toHaveBeenCalledWith('Unhandled exception', error)
+      expect(SentryNode.captureException).toHaveBeenCalledTimes(1)
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+    })
+
+    it('should capture the logged errors of a successful invocation as handled events', async () => {
+      const error = new Error('Failed')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, () => {
+        logger.error('failed', error)
+        expect(SentryNode.captureException).not.toHaveBeenCalled()
+        return Promise.resolve('recovered')
+      })
+
+      await expect(wrapper(createCallableRequest())).resolves.toBe('recovered')
+
+      expect(SentryNode.captureException).toHaveBeenCalledTimes(1)
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, { level: 'error', extra: { message: 'failed' } })
+    })
+
+    it('should capture the logged errors immediately outside of an invocation', () => {
+      const error = new Error('Failed')
+
+      logger.error('failed', error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, { level: 'error', extra: { message: 'failed' } })
+    })
+  })
+
+  describe('sentryWrapOnRequest', () => {
+    const createRequest = (headers: HttpsRequest['headers'] = {}) =>
+      ({
+        method: 'POST',
+        path: '/users/123',
+        originalUrl: '/users/123?expand=true',
+        query: { expand: 'true' },
+        headers,
+      }) as unknown as HttpsRequest
+
+    const createResponse = (statusCode = 200) => ({ statusCode }) as Parameters<HttpsFunction>[1]
+
+    it('should wrap HTTPS v2 handler successfully', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+      const request = createRequest()
+      const response = createResponse()
+
+      await wrapper(request, response)
+
+      expect(handler).toHaveBeenCalledWith(request, response)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        {
+          name: 'POST /users/123',
+          op: 'http.server',
+          attributes: {
+            'http.request.method': 'POST',
+            'url.path': '/users/123',
+            'sentry.source': 'url',
+          },
+        },
+        expect.any(Function),
+      )
+      expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+    })
+
+    it('should rethrow errors classified without rethrowing', async () => {
+      const error = new Error('Not found')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnRequest(
+        { name: 'request-function', classifyError: () => ({ outcome: 'handled', rethrow: false }) },
+        handler,
+      )
+
+      await expect(wrapper(createRequest(), createResponse())).rejects.toBe(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.anything())
+    })
+
+    it('should continue the incoming trace', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+
+      await wrapper(
+        createRequest({ 'sentry-trace': 'trace-id-span-id-1', baggage: 'sentry-environment=test' }),
+        createResponse(),
+      )
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: 'trace-id-span-id-1', baggage: 'sentry-environment=test' },
+        expect.any(Function),
+      )
+    })
+
+    it('should join repeated trace headers', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+      const request = createRequest()
+      request.headers = { baggage: ['sentry-environment=test', 'sentry-release=1.0.0'] } as HttpsRequest['headers']
+
+      await wrapper(request, createResponse())
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: undefined, baggage: 'sentry-environment=test,sentry-release=1.0.0' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set proper context for HTTPS v2', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+
+      await wrapper(createRequest(), createResponse(201))
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'request-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('HTTP Request', {
+        method: 'POST',
+        url: '/users/123?expand=true',
+        query: { expand: 'true' },
+      })
+      expect(mockScope.setContext).toHaveBeenCalledWith('HTTP Response', {
+        statusCode: 201,
+        responseTime: expect.any(Number) as number,
+      })
+      expect(SentryNode.captureMessage).not.toHaveBeenCalled()
+    })
+
+    it('should set the http status on the active span', async () => {
+      const span = mock<SentryCore.Span>()
+      vi.mocked(SentryNode.getActiveSpan).mockReturnValue(span)
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+
+      await wrapper(createRequest(), createResponse(404))
+
+      expect(SentryNode.setHttpStatus).toHaveBeenCalledWith(span, 404)
+    })
+
+    it('should capture 5xx responses', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+
+      await wrapper(createRequest(), createResponse(503))
+
+      expect(SentryNode.captureMessage).toHaveBeenCalledWith('POST /users/123 responded with 503', 'error')
+    })
+
+    it('should capture thrown errors as unhandled and rethrow', async () => {
+      const error = new Error('Request failed')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnRequest({ name: 'request-function' }, handler)
+
+      await expect(wrapper(createRequest(), createResponse(500))).rejects.toThrow('Request failed')
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+      expect(SentryNode.captureMessage).not.toHaveBeenCalled()
+      expect(mockScope.setContext).toHaveBeenCalledWith('HTTP Response', {
+        statusCode: 500,
+        responseTime: expect.any(Number) as number,
+      })
+    })
+  })
+
+  describe('sentryWrapOnCall', () => {
+    const createRequest = (overrides: Partial<CallableRequest<{ foo: string }>> = {}) =>
+      ({
+        data: { foo: 'bar' },
+        acceptsStreaming: false,
+        rawRequest: { headers: {} },
+        ...overrides,
+      }) as CallableRequest<{ foo: string }>
+
+    const auth = {
+      uid: 'user-123',
+      token: { email: 'test@example.com', admin: true },
+      rawToken: 'raw-token',
+    } as unknown as CallableRequest['auth']
+
+    it('should wrap callable v2 handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+      const request = createRequest()
+
+      const result = await wrapper(request)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(request, undefined)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'callable-function', op: 'on-call' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set proper context for callable v2', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+
+      await wrapper(createRequest({ app: { appId: 'app-id', token: {} } as CallableRequest['app'] }))
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'callable-function')
+      expect(mockScope.setTag).toHaveBeenCalledWith('app_check', 'verified')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Callable Request', {
+        data: { foo: 'bar' },
+        appId: 'app-id',
+        acceptsStreaming: false,
+      })
+      expect(mockScope.setUser).not.toHaveBeenCalled()
+    })
+
+    it('should tag missing and consumed app check tokens', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+
+      await wrapper(createRequest())
+      await wrapper(
+        createRequest({ app: { appId: 'app-id', token: {}, alreadyConsumed: true } as CallableRequest['app'] }),
+      )
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('app_check', 'missing')
+      expect(mockScope.setTag).toHaveBeenCalledWith('app_check', 'consumed')
+    })
+
+    it('should set the user from auth without token claims by default', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+
+      await wrapper(createRequest({ auth }))
+
+      expect(mockScope.setUser).toHaveBeenCalledWith({ id: 'user-123' })
+    })
+
+    it('should include token claims when enabled', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCall({ name: 'callable-function', includeTokenClaims: true }, handler)
+
+      await wrapper(createRequest({ auth }))
+
+      expect(mockScope.setUser).toHaveBeenCalledWith({
+        id: 'user-123',
+        claims: { email: 'test@example.com', admin: true },
+      })
+    })
+
+    it('should report client HttpsError as breadcrumb without capturing an exception', async () => {
+      const error = new HttpsError('invalid-argument', 'Invalid input')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+
+      await expect(wrapper(createRequest())).rejects.toBe(error)
+
+      expect(SentryNode.addBreadcrumb).toHaveBeenCalledWith(
+        expect.objectContaining({ category: 'https.error', data: { code: 'invalid-argument', details: undefined } }),
+      )
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+      expect(SentryNode.flush).toHaveBeenCalledWith(5000)
+    })
+
+    it('should rethrow errors classified without rethrowing', async () => {
+      const error = new Error('Not found')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnCall(
+        { name: 'callable-function', classifyError: () => ({ outcome: 'handled', rethrow: false }) },
+        handler,
+      )
+
+      await expect(wrapper(createRequest())).rejects.toBe(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.anything())
+    })
+
+    it('should capture internal HttpsError as unhandled', async () => {
+      const error = new HttpsError('internal', 'Something broke')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapOnCall({ name: 'callable-function' }, handler)
+
+      await expect(wrapper(createRequest())).rejects.toBe(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+      expect(SentryNode.addBreadcrumb).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sentryWrapBeforeUserCreated', () => {
+    const createEvent = (overrides: Partial<AuthBlockingEvent> = {}) =>
+      ({
+        eventId: 'event-123',
+        eventType: 'providers/cloud.auth/eventTypes/user.beforeCreate:password',
+        resource: { service: 'identitytoolkit.googleapis.com', name: 'projects/test' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+        locale: 'en',
+        ipAddress: '127.0.0.1',
+        userAgent: 'test-agent',
+        data: { uid: 'user-123', email: 'test@example.com' },
+        additionalUserInfo: { providerId: 'password', isNewUser: true, recaptchaScore: 0.9 },
+        ...overrides,
+      }) as AuthBlockingEvent
+
+    it('should wrap beforeUserCreated handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue({ displayName: 'Test' })
+      const wrapper = sentryWrapBeforeUserCreated({ name: 'before-create-function' }, handler)
+      const event = createEvent()
+
+      const result = await wrapper(event)
+
+      expect(result).toEqual({ displayName: 'Test' })
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'before-create-function', op: 'before-user-created' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set proper context for beforeUserCreated', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapBeforeUserCreated({ name: 'before-create-function' }, handler)
+
+      await wrapper(createEvent())
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'before-create-function')
+      expect(mockScope.setTag).toHaveBeenCalledWith(
+        'auth.event_type',
+        'providers/cloud.auth/eventTypes/user.beforeCreate:password',
+      )
+      expect(mockScope.setTag).toHaveBeenCalledWith('auth.provider', 'password')
+      expect(mockScope.setUser).toHaveBeenCalledWith({ id: 'user-123' })
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firebase Context', {
+        eventId: 'event-123',
+        eventType: 'providers/cloud.auth/eventTypes/user.beforeCreate:password',
+        resource: { service: 'identitytoolkit.googleapis.com', name: 'projects/test' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+      })
+      expect(mockScope.setContext).toHaveBeenCalledWith('Auth Blocking Event', {
+        locale: 'en',
+        userAgent: 'test-agent',
+        isNewUser: true,
+        recaptchaScore: 0.9,
+        signInMethod: undefined,
+      })
+    })
+
+    it('should report HttpsError rejections as expected outcomes', async () => {
+      const error = new HttpsError('permission-denied', 'Unauthorized email domain')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapBeforeUserCreated({ name: 'before-create-function' }, handler)
+
+      await expect(wrapper(createEvent())).rejects.toBe(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledTimes(1)
+      expect(SentryNode.captureException).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({
+          level: 'info',
+          tags: { 'auth.blocked': true, 'https.error.code': 'permission-denied' },
+        }),
+      )
+    })
+
+    it('should capture crashes as unhandled', async () => {
+      const error = new Error('Database unavailable')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryWrapBeforeUserCreated({ name: 'before-create-function' }, handler)
+
+      await expect(wrapper(createEvent())).rejects.toBe(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+    })
+  })
+
+  describe('sentryWrapBeforeUserSignedIn', () => {
+    it('should use the credential provider and sign-in method', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapBeforeUserSignedIn({ name: 'before-sign-in-function' }, handler)
+      const event = {
+        eventId: 'event-456',
+        eventType: 'providers/cloud.auth/eventTypes/user.beforeSignIn:google.com',
+        resource: { service: 'identitytoolkit.googleapis.com', name: 'projects/test' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+        ipAddress: '127.0.0.1',
+        userAgent: 'test-agent',
+        data: { uid: 'user-456' },
+        credential: { providerId: 'google.com', signInMethod: 'google.com' },
+      } as AuthBlockingEvent
+
+      await wrapper(event)
+
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'before-sign-in-function', op: 'before-user-signed-in' },
+        expect.any(Function),
+      )
+      expect(mockScope.setTag).toHaveBeenCalledWith('auth.provider', 'google.com')
+      expect(mockScope.setUser).toHaveBeenCalledWith({ id: 'user-456' })
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Auth Blocking Event',
+        expect.objectContaining({ signInMethod: 'google.com' }),
+      )
+    })
+
+    it('should not set user or provider when missing', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryWrapBeforeUserSignedIn({ name: 'before-sign-in-function' }, handler)
+      const event = {
+        eventId: 'event-789',
+        eventType: 'providers/cloud.auth/eventTypes/user.beforeSignIn',
+        resource: { service: 'identitytoolkit.googleapis.com', name: 'projects/test' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: {},
+        ipAddress: '127.0.0.1',
+        userAgent: 'test-agent',
+      } as AuthBlockingEvent
+
+      await wrapper(event)
+
+      expect(mockScope.setUser).not.toHaveBeenCalled()
+      expect(mockScope.setTag).not.toHaveBeenCalledWith('auth.provider', expect.anything())
+    })
+  })
+
+  describe('sentryOnObjectChangeV1Wrapper', () => {
+    const object = {
+      kind: 'storage#object',
+      id: 'test-bucket/images/photo.png/1',
+      bucket: 'test-bucket',
+      name: 'images/photo.png',
+      contentType: 'image/png',
+      size: '1024',
+      generation: '1',
+      metageneration: '2',
+      storageClass: 'STANDARD',
+      timeCreated: '2023-01-01T00:00:00.000Z',
+      updated: '2023-01-01T00:00:00.000Z',
+    } as ObjectMetadata
+
+    const context: EventContext = {
+      eventId: 'event-123',
+      eventType: 'google.storage.object.finalize',
+      resource: { service: 'storage.googleapis.com', name: 'projects/_/buckets/test-bucket/objects/images/photo.png' },
+      timestamp: '2023-01-01T00:00:00.000Z',
+      params: {},
+    }
+
+    it('should wrap Storage v1 handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnObjectChangeV1Wrapper({ name: 'storage-function' }, handler)
+
+      const result = await wrapper(object, context)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(object, context)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'storage-function', op: 'google.storage.object.finalize' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set proper context for Storage v1', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnObjectChangeV1Wrapper({ name: 'storage-function' }, handler)
+
+      await wrapper(object, context)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v1')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'storage-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Storage Object', {
+        bucket: 'test-bucket',
+        name: 'images/photo.png',
+        contentType: 'image/png',
+        size: '1024',
+        generation: '1',
+        metageneration: '2',
+      })
+    })
+  })
+
+  describe('sentryWrapOnObjectChange', () => {
+    const event = {
+      id: 'event-123',
+      type: 'google.cloud.storage.object.v1.finalized',
+      source: '//storage.googleapis.com/projects/_/buckets/test-bucket',
+      subject: 'objects/images/photo.png',
+      time: '2023-01-01T00:00:00.000Z',
+      bucket: 'test-bucket',
+      data: {
+        bucket: 'test-bucket',
+        id: 'test-bucket/images/photo.png/1',
+        name: 'images/photo.png',
+        contentType: 'image/png',
+        size: 1024,
+        generation: 1,
+        metageneration: 2,
+        storageClass: 'STANDARD',
+      },
+    } as StorageEvent
+
+    it('should wrap Storage v2 handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnObjectChange({ name: 'storage-v2-function' }, handler)
+
+      const result = await wrapper(event)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(event)
+    })
+
+    it('should set proper context for Storage v2', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnObjectChange({ name: 'storage-v2-function' }, handler)
+
+      await wrapper(event)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'storage-v2-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firebase Context', {
+        eventId: 'event-123',
+        eventType: 'google.cloud.storage.object.v1.finalized',
+        source: '//storage.googleapis.com/projects/_/buckets/test-bucket',
+        subject: 'objects/images/photo.png',
+        timestamp: '2023-01-01T00:00:00.000Z',
+      })
+      expect(mockScope.setContext).toHaveBeenCalledWith('Storage Object', {
+        bucket: 'test-bucket',
+        name: 'images/photo.png',
+        contentType: 'image/png',
+        size: 1024,
+        generation: 1,
+        metageneration: 2,
+      })
+    })
+  })
+
+  describe('sentryOnDatabaseChangeV1Wrapper', () => {
+    const context: EventContext = {
+      eventId: 'event-123',
+      eventType: 'providers/google.firebase.database/eventTypes/ref.write',
+      resource: { service: 'firebaseio.com', name: 'projects/_/instances/test-db/refs/users/user-123' },
+      timestamp: '2023-01-01T00:00:00.000Z',
+      params: { userId: 'user-123' },
+    }
+
+    it('should wrap Realtime Database v1 write handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnDatabaseChangeV1Wrapper({ name: 'database-function' }, handler)
+      const change: Change<DataSnapshot> = {
+        before: createDataSnapshot(null),
+        after: createDataSnapshot({ name: 'Test' }),
+      }
+
+      const result = await wrapper(change, context)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(change, context)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'database-function', op: 'providers/google.firebase.database/eventTypes/ref.write' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set before and after summary for Realtime Database v1 changes', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnDatabaseChangeV1Wrapper({ name: 'database-function' }, handler)
+      const change: Change<DataSnapshot> = {
+        before: createDataSnapshot(null),
+        after: createDataSnapshot({ name: 'Test', age: 42 }),
+      }
+
+      await wrapper(change, context)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v1')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'database-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Realtime Database', {
+        ref: '/users/user-123',
+        instance: 'test-db',
+        params: { userId: 'user-123' },
+        before: { exists: false, numChildren: 0, value: null },
+        after: { exists: true, numChildren: 2 },
+      })
+    })
+
+    it('should set snapshot summary for Realtime Database v1 create', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnDatabaseChangeV1Wrapper({ name: 'database-function' }, handler)
+      const snapshot = createDataSnapshot('online')
+
+      await wrapper(snapshot, {
+        ...context,
+        eventType: 'providers/google.firebase.database/eventTypes/ref.create',
+        resource: { service: 'firebaseio.com', name: 'projects/_/instances/test-db/refs' },
+        params: {},
+      })
+
+      expect(mockScope.setContext).toHaveBeenCalledWith('Realtime Database', {
+        ref: '/',
+        instance: 'test-db',
+        params: {},
+        snapshot: { exists: true, numChildren: 0, value: 'online' },
+      })
+    })
+
+    it('should scrub the snapshot values with the ref', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnDatabaseChangeV1Wrapper(
+        { name: 'database-function', scrub: { pathMasks: ['users/*'] } },
+        handler,
+      )
+
+      await wrapper(createDataSnapshot('john@example.com'), context)
+
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Realtime Database',
+        expect.objectContaining({ snapshot: { exists: true, numChildren: 0, value: '[Filtered]' } }),
+      )
+    })
+
+    it('should not fail on unexpected resource names', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnDatabaseChangeV1Wrapper({ name: 'database-function' }, handler)
+
+      await wrapper(createDataSnapshot(1), { ...context, resource: { service: 'firebaseio.com', name: 'unexpected' } })
+
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Realtime Database',
+        expect.objectContaining({ ref: '/', instance: undefined }),
+      )
+    })
+  })
+
+  describe('sentryWrapOnValueChange', () => {
+    const createEvent = <T>(data: T) =>
+      ({
+        id: 'event-123',
+        type: 'google.firebase.database.ref.v1.written',
+        source: '//firebasedatabase.googleapis.com/projects/_/locations/us-central1/instances/test-db',
+        subject: 'refs/users/user-123',
+        time: '2023-01-01T00:00:00.000Z',
+        firebaseDatabaseHost: 'firebaseio.com',
+        instance: 'test-db',
+        ref: 'users/user-123',
+        location: 'us-central1',
+        params: { userId: 'user-123' },
+        data,
+      }) as DatabaseEvent<T, { userId: string }>
+
+    it('should wrap Realtime Database v2 handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnValueChange({ name: 'database-v2-function' }, handler)
+      const event = createEvent(createDataSnapshot({ name: 'Test' }))
+
+      const result = await wrapper(event)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(event)
+    })
+
+    it('should set proper context for Realtime Database v2 writes', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnValueChange({ name: 'database-v2-function' }, handler)
+      const change: Change<DataSnapshot> = {
+        before: createDataSnapshot({ name: 'Before' }),
+        after: createDataSnapshot(null),
+      }
+
+      await wrapper(createEvent(change))
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'database-v2-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firebase Context', {
+        eventId: 'event-123',
+        eventType: 'google.firebase.database.ref.v1.written',
+        source: '//firebasedatabase.googleapis.com/projects/_/locations/us-central1/instances/test-db',
+        subject: 'refs/users/user-123',
+        timestamp: '2023-01-01T00:00:00.000Z',
+      })
+      expect(mockScope.setContext).toHaveBeenCalledWith('Realtime Database', {
+        ref: 'users/user-123',
+        instance: 'test-db',
+        params: { userId: 'user-123' },
+        before: { exists: true, numChildren: 1 },
+        after: { exists: false, numChildren: 0, value: null },
+      })
+    })
+
+    it('should set snapshot summary for Realtime Database v2 create', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnValueChange({ name: 'database-v2-function' }, handler)
+
+      await wrapper(createEvent(createDataSnapshot(42)))
+
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Realtime Database',
+        expect.objectContaining({ snapshot: { exists: true, numChildren: 0, value: 42 } }),
+      )
+    })
+
+    it('should scrub the snapshot values with the ref', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnValueChange(
+        { name: 'database-v2-function', scrub: { pathMasks: ['users/*'] } },
+        handler,
+      )
+
+      await wrapper(createEvent(createDataSnapshot('john@example.com')))
+
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Realtime Database',
+        expect.objectContaining({ snapshot: { exists: true, numChildren: 0, value: '[Filtered]' } }),
+      )
+    })
+  })
+
+  describe('sentryWrapOnAlertPublished', () => {
+    const createAlertEvent = <T>(alertType: string, payload: T, appId?: string) =>
+      ({
+        id: 'event-123',
+        type: 'google.firebase.firebasealerts.alerts.v1.published',
+        source: '//firebasealerts.googleapis.com/projects/test',
+        time: '2023-01-01T00:00:00.000Z',
+        alertType,
+        appId,
+        data: {
+          createTime: '2023-01-01T00:00:00.000Z',
+          endTime: '2023-01-02T00:00:00.000Z',
+          payload,
+        },
+      }) as AlertEvent<T>
+
+    it('should wrap alert handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnAlertPublished({ name: 'alert-function' }, handler)
+      const event = createAlertEvent('performance.threshold', { metricType: 'duration' }, 'app-id')
+
+      const result = await wrapper(event)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'alert-function', op: 'google.firebase.firebasealerts.alerts.v1.published' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set alert context for Crashlytics alerts', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCrashlyticsAlert({ name: 'crashlytics-function' }, handler)
+      const event = createAlertEvent(
+        'crashlytics.newFatalIssue',
+        { issue: { id: 'issue-1', title: 'Crash' } },
+        'app-id',
+      ) as CrashlyticsEvent<unknown>
+
+      await wrapper(event)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v2')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'crashlytics-function')
+      expect(mockScope.setTag).toHaveBeenCalledWith('alert.type', 'crashlytics.newFatalIssue')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firebase Alert', {
+        alertType: 'crashlytics.newFatalIssue',
+        appId: 'app-id',
+        createTime: '2023-01-01T00:00:00.000Z',
+        endTime: '2023-01-02T00:00:00.000Z',
+        payload: { issue: { id: 'issue-1', title: 'Crash' } },
+      })
+    })
+
+    it('should set alert context for billing alerts without app id', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnBillingAlert({ name: 'billing-function' }, handler)
+      const event = createAlertEvent('billing.planUpdate', { billingPlan: 'blaze' }) as BillingEvent<unknown>
+
+      await wrapper(event)
+
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Firebase Alert',
+        expect.objectContaining({ alertType: 'billing.planUpdate', appId: undefined }),
+      )
+    })
+
+    it('should set alert context for App Distribution alerts', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnAppDistributionAlert({ name: 'app-distribution-function' }, handler)
+      const event = createAlertEvent(
+        'appDistribution.inAppFeedback',
+        { text: 'Great app' },
+        'app-id',
+      ) as AppDistributionEvent<unknown>
+
+      await wrapper(event)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('alert.type', 'appDistribution.inAppFeedback')
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Firebase Alert',
+        expect.objectContaining({ appId: 'app-id', payload: { text: 'Great app' } }),
+      )
+    })
+
+    it('should scrub the alert payload', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnAppDistributionAlert(
+        { name: 'app-distribution-function', scrub: { denyKeys: ['testerEmail'] } },
+        handler,
+      )
+      const event = createAlertEvent(
+        'appDistribution.inAppFeedback',
+        { text: 'Great app', testerEmail: 'john@example.com' },
+        'app-id',
+      ) as AppDistributionEvent<unknown>
+
+      await wrapper(event)
+
+      expect(mockScope.setContext).toHaveBeenCalledWith(
+        'Firebase Alert',
+        expect.objectContaining({ payload: { text: 'Great app', testerEmail: '[Filtered]' } }),
+      )
+    })
+  })
+
+  describe('sentryWrapOnConfigUpdated', () => {
+    it('should set Remote Config context', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnConfigUpdated({ name: 'remote-config-function' }, handler)
+      const event = {
+        id: 'event-123',
+        type: 'google.firebase.remoteconfig.remoteConfig.v1.updated',
+        source: '//firebaseremoteconfig.googleapis.com/projects/test',
+        time: '2023-01-01T00:00:00.000Z',
+        data: {
+          versionNumber: 42,
+          updateTime: '2023-01-01T00:00:00.000Z',
+          updateUser: { name: 'Test User', email: 'test@example.com', imageUrl: '' },
+          description: 'Enable feature',
+          updateOrigin: 'CONSOLE',
+          updateType: 'INCREMENTAL_UPDATE',
+          rollbackSource: 0,
+        },
+      } as CloudEvent<ConfigUpdateData>
+
+      const result = await wrapper(event)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'remote-config-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Remote Config Update', {
+        versionNumber: 42,
+        updateTime: '2023-01-01T00:00:00.000Z',
+        updateUser: 'test@example.com',
+        updateOrigin: 'CONSOLE',
+        updateType: 'INCREMENTAL_UPDATE',
+        description: 'Enable feature',
+        rollbackSource: 0,
+      })
+    })
+  })
+
+  describe('sentryWrapOnTestMatrixCompleted', () => {
+    it('should set Test Lab context', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnTestMatrixCompleted({ name: 'test-lab-function' }, handler)
+      const event = {
+        id: 'event-123',
+        type: 'google.firebase.testlab.testMatrix.v1.completed',
+        source: '//firebasetestlab.googleapis.com/projects/test',
+        time: '2023-01-01T00:00:00.000Z',
+        data: {
+          testMatrixId: 'matrix-123',
+          state: 'FINISHED',
+          outcomeSummary: 'FAILURE',
+          invalidMatrixDetails: '',
+          createTime: '2023-01-01T00:00:00.000Z',
+          clientInfo: { client: 'gcloud', details: {} },
+          resultStorage: {
+            resultsUri: 'https://console.firebase.google.com/results',
+            gcsPath: 'gs://bucket/results',
+            toolResultsHistory: 'history',
+            toolResultsExecution: 'execution',
+          },
+        },
+      } as CloudEvent<TestMatrixCompletedData>
+
+      const result = await wrapper(event)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(mockScope.setTag).toHaveBeenCalledWith('test_matrix.state', 'FINISHED')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Test Matrix', {
+        testMatrixId: 'matrix-123',
+        state: 'FINISHED',
+        outcomeSummary: 'FAILURE',
+        invalidMatrixDetails: '',
+        createTime: '2023-01-01T00:00:00.000Z',
+        client: 'gcloud',
+        resultsUri: 'https://console.firebase.google.com/results',
+      })
+    })
+  })
+
+  describe('sentryWrapOnCustomEventPublished', () => {
+    it('should set Eventarc context', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryWrapOnCustomEventPublished({ name: 'eventarc-function' }, handler)
+      const event = {
+        id: 'event-123',
+        type: 'com.example.order.created',
+        source: 'orders-service',
+        subject: 'orders/order-123',
+        time: '2023-01-01T00:00:00.000Z',
+        data: { orderId: 'order-123' },
+      } as CloudEvent<{ orderId: string }>
+
+      const result = await wrapper(event)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(event)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'eventarc-function', op: 'com.example.order.created' },
+        expect.any(Function),
+      )
+      expect(mockScope.setContext).toHaveBeenCalledWith('Eventarc Event', {
+        source: 'orders-service',
+        subject: 'orders/order-123',
+        type: 'com.example.order.created',
+        data: { orderId: 'order-123' },
+      })
+    })
+  })
+
+  describe('sentryOnCreateV1Wrapper', () => {
+    const snapshot = {
+      ref: { id: 'doc-123', path: 'collection/doc-123' },
+      data: () => ({ field: 'created' }),
+    } as unknown as QueryDocumentSnapshot
+
+    const context: EventContext = {
+      eventId: 'event-123',
+      eventType: 'providers/cloud.firestore/eventTypes/document.create',
+      resource: { service: 'firestore', name: 'projects/test/databases/(default)/documents/collection/doc-123' },
+      timestamp: '2023-01-01T00:00:00.000Z',
+      params: { docId: 'doc-123' },
+    }
+
+    it('should wrap Firestore v1 create handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnCreateV1Wrapper({ name: 'firestore-create-function' }, handler)
+
+      const result = await wrapper(snapshot, context)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(snapshot, context)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'firestore-create-function', op: 'providers/cloud.firestore/eventTypes/document.create' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set created document context for Firestore v1', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnCreateV1Wrapper({ name: 'firestore-create-function' }, handler)
+
+      await wrapper(snapshot, context)
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v1')
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'create')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firestore Document', {
+        document: 'collection/{docId}',
+        params: { docId: 'doc-123' },
+        path: 'collection/doc-123',
+        id: 'doc-123',
+        changeType: 'create',
+        changedFields: ['field'],
+        after: { field: 'created' },
+      })
+    })
+  })
+
+  describe('sentryOnUpdateV1Wrapper', () => {
+    it('should set updated document context for Firestore v1', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnUpdateV1Wrapper({ name: 'firestore-update-function' }, handler)
+      const change: Change<QueryDocumentSnapshot> = {
+        before: {
+          ref: { id: 'doc-123', path: 'collection/doc-123' },
+          data: () => ({ field: 'before' }),
+        } as unknown as QueryDocumentSnapshot,
+        after: {
+          ref: { id: 'doc-123', path: 'collection/doc-123' },
+          data: () => ({ field: 'after' }),
+        } as unknown as QueryDocumentSnapshot,
+      }
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'providers/cloud.firestore/eventTypes/document.update',
+        resource: { service: 'firestore', name: 'projects/test/databases/(default)/documents/collection/doc-123' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: { docId: 'doc-123' },
+      }
+
+      const result = await wrapper(change, context)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(change, context)
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'update')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firestore Document', {
+        document: 'collection/{docId}',
+        params: { docId: 'doc-123' },
+        path: 'collection/doc-123',
+        id: 'doc-123',
+        changeType: 'update',
+        changedFields: ['field'],
+        before: { field: 'before' },
+        after: { field: 'after' },
+      })
+    })
+  })
+
+  describe('sentryOnDeleteV1Wrapper', () => {
+    it('should set deleted document context for Firestore v1', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnDeleteV1Wrapper({ name: 'firestore-delete-function' }, handler)
+      const snapshot = {
+        ref: { id: 'doc-123', path: 'collection/doc-123' },
+        data: () => ({ field: 'deleted' }),
+      } as unknown as QueryDocumentSnapshot
+      const context: EventContext = {
+        eventId: 'event-123',
+        eventType: 'providers/cloud.firestore/eventTypes/document.delete',
+        resource: { service: 'firestore', name: 'projects/test/databases/(default)/documents/collection/doc-123' },
+        timestamp: '2023-01-01T00:00:00.000Z',
+        params: { docId: 'doc-123' },
+      }
+
+      const result = await wrapper(snapshot, context)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith(snapshot, context)
+      expect(mockScope.setTag).toHaveBeenCalledWith('firestore.change_type', 'delete')
+      expect(mockScope.setContext).toHaveBeenCalledWith('Firestore Document', {
+        document: 'collection/{docId}',
+        params: { docId: 'doc-123' },
+        path: 'collection/doc-123',
+        id: 'doc-123',
+        changeType: 'delete',
+        changedFields: ['field'],
+        before: { field: 'deleted' },
+      })
+    })
+  })
+
+  describe('sentryOnRequestV1Wrapper', () => {
+    it('should wrap HTTPS v1 handler with v1 tags', async () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      const handler = vi.fn().mockResolvedValue(undefined)
+      const wrapper = sentryOnRequestV1Wrapper({ name: 'request-v1-function' }, handler)
+      const request = {
+        method: 'GET',
+        path: '/status',
+        originalUrl: '/status',
+        query: {},
+        headers: {},
+      } as unknown as HttpsRequest
+      const response = { statusCode: 200 } as Parameters<HttpsFunction>[1]
+
+      await wrapper(request, response)
+
+      expect(handler).toHaveBeenCalledWith(request, response)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'GET /status', op: 'http.server' }),
+        expect.any(Function),
+      )
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v1')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'request-v1-function')
+      expect(mockScope.setContext).toHaveBeenCalledWith('HTTP Request', {
+        method: 'GET',
+        url: '/status',
+        query: {},
+      })
+    })
+  })
+
+  describe('sentryOnCallV1Wrapper', () => {
+    const createContext = (overrides: Partial<CallableContext> = {}) =>
+      ({
+        rawRequest: { method: 'POST', originalUrl: '/createInvoice' },
+        ...overrides,
+      }) as CallableContext
+
+    it('should wrap callable v1 handler successfully', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnCallV1Wrapper({ name: 'callable-v1-function' }, handler)
+      const context = createContext()
+
+      const result = await wrapper({ foo: 'bar' }, context)
+
+      expect(result).toBe('success')
+      expect(handler).toHaveBeenCalledWith({ foo: 'bar' }, context)
+      expect(SentryNode.startSpan).toHaveBeenCalledWith(
+        { name: 'callable-v1-function', op: 'on-call' },
+        expect.any(Function),
+      )
+    })
+
+    it('should set request metadata and auth context for callable v1', async () => {
+      const handler = vi.fn().mockResolvedValue('success')
+      const wrapper = sentryOnCallV1Wrapper({ name: 'callable-v1-function', includeTokenClaims: true }, handler)
+
+      await wrapper(
+        { foo: 'bar' },
+        createContext({
+          auth: { uid: 'user-123', token: { admin: true }, rawToken: 'raw' } as unknown as CallableContext['auth'],
+          app: { appId: 'app-id', token: {} } as CallableContext['app'],
+        }),
+      )
+
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.version', 'v1')
+      expect(mockScope.setTag).toHaveBeenCalledWith('function.name', 'callable-v1-function')
+      expect(mockScope.setTag).toHaveBeenCalledWith('app_check', 'verified')
+      expect(mockScope.setUser).toHaveBeenCalledWith({ id: 'user-123', claims: { admin: true } })
+      expect(mockScope.setContext).toHaveBeenCalledWith('Callable Request', {
+        data: { foo: 'bar' },
+        appId: 'app-id',
+        method: 'POST',
+        url: '/createInvoice',
+      })
+    })
+
+    it('should report client HttpsError as expected for callable v1', async () => {
+      const error = new HttpsError('not-found', 'Invoice not found')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryOnCallV1Wrapper({ name: 'callable-v1-function' }, handler)
+
+      await expect(wrapper({}, createContext())).rejects.toBe(error)
+
+      expect(SentryNode.addBreadcrumb).toHaveBeenCalled()
+      expect(SentryNode.captureException).not.toHaveBeenCalled()
+    })
+
+    it('should capture unexpected errors as unhandled for callable v1', async () => {
+      const error = new Error('Boom')
+      const handler = vi.fn().mockRejectedValue(error)
+      const wrapper = sentryOnCallV1Wrapper({ name: 'callable-v1-function' }, handler)
+
+      await expect(wrapper({}, createContext())).rejects.toBe(error)
+
+      expect(SentryNode.captureException).toHaveBeenCalledWith(error, expect.any(Function))
+    })
   })
 })
@@ -0,0 +1,142 @@
+import * as SentryNode from '@sentry/node'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  continueTraceFromAttributes,
+  continueTraceFromTask,
+  enqueueTaskWithSentryTrace,
+  publishMessageWithSentryTrace,
+  SENTRY_TRACE_DATA_FIELD,
+  withSentryTraceAttributes,
+} from '../trace-propagation'
+
+vi.mock('@sentry/node', () => ({
+  continueTrace: vi.fn((_options: unknown, callback: () => unknown) => callback()),
+  getTraceData: vi.fn(),
+}))
+
+const traceData = {
+  'sentry-trace': '12345678901234567890123456789012-1234567890123456-1',
+  baggage: 'sentry-environment=test',
+}
+
+describe('trace-propagation', () => {
+  describe('withSentryTraceAttributes', () => {
+    it('should add the active trace to the attributes', () => {
+      vi.mocked(SentryNode.getTraceData).mockReturnValue(traceData)
+
+      expect(withSentryTraceAttributes({ source: 'api' })).toEqual({
+        source: 'api',
+        'sentry-trace': '12345678901234567890123456789012-1234567890123456-1',
+        baggage: 'sentry-environment=test',
+      })
+    })
+
+    it('should leave the attributes untouched when there is no active trace', () => {
+      vi.mocked(SentryNode.getTraceData).mockReturnValue({})
+
+      expect(withSentryTraceAttributes()).toEqual({})
+    })
+  })
+
+  describe('publishMessageWithSentryTrace', () => {
+    it('should publish the message with trace attributes', async () => {
+      vi.mocked(SentryNode.getTraceData).mockReturnValue(traceData)
+      const topic = { publishMessage: vi.fn().mockResolvedValue('message-id') }
+
+      const messageId = await publishMessageWithSentryTrace(topic, {
+        json: { foo: 'bar' },
+        attributes: { source: 'api' },
+      })
+
+      expect(messageId).toBe('message-id')
+      expect(topic.publishMessage).toHaveBeenCalledWith({
+        json: { foo: 'bar' },
+        attributes: { source: 'api', ...traceData },
+      })
+    })
+  })
+
+  describe('enqueueTaskWithSentryTrace', () => {
+    it('should enqueue the task with trace headers', async () => {
+      vi.mocked(SentryNode.getTraceData).mockReturnValue(traceData)
+      const queue = { enqueue: vi.fn().mockResolvedValue(undefined) }
+
+      await enqueueTaskWithSentryTrace(
+        queue,
+        { foo: 'bar' },
+        { scheduleDelaySeconds: 60, headers: { 'x-source': 'api' } },
+      )
+
+      expect(queue.enqueue).toHaveBeenCalledWith(
+        { foo: 'bar' },
+        { scheduleDelaySeconds: 60, headers: { 'x-source': 'api', ...traceData } },
+      )
+    })
+
+    it('should add trace headers when no options are given', async () => {
+      vi.mocked(SentryNode.getTraceData).mockReturnValue(traceData)
+      const queue = { enqueue: vi.fn().mockResolvedValue(undefined) }
+
+      await enqueueTaskWithSentryTrace(queue, { foo: 'bar' })
+
+      expect(queue.enqueue).toHaveBeenCalledWith({ foo: 'bar' }, { headers: traceData })
+    })
+  })
+
+  describe('continueTraceFromAttributes', () => {
+    it('should continue the trace from the attributes', () => {
+      const callback = vi.fn().mockReturnValue('result')
+
+      expect(continueTraceFromAttributes(traceData, callback)).toBe('result')
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: traceData['sentry-trace'], baggage: traceData.baggage },
+        callback,
+      )
+    })
+
+    it('should start a new trace when attributes are missing', () => {
+      const callback = vi.fn()
+
+      continueTraceFromAttributes(undefined, callback)
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith({ sentryTrace: undefined, baggage: undefined }, callback)
+    })
+  })
+
+  describe('continueTraceFromTask', () => {
+    it('should continue the trace from the task headers', () => {
+      const callback = vi.fn()
+
+      continueTraceFromTask({ headers: { 'content-type': 'application/json', ...traceData }, data: {} }, callback)
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: traceData['sentry-trace'], baggage: traceData.baggage },
+        callback,
+      )
+    })
+
+    it('should continue the trace from the reserved data field', () => {
+      const callback = vi.fn()
+
+      continueTraceFromTask(
+        { headers: { 'content-type': 'application/json' }, data: { foo: 'bar', [SENTRY_TRACE_DATA_FIELD]: traceData } },
+        callback,
+      )
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith(
+        { sentryTrace: traceData['sentry-trace'], baggage: traceData.baggage },
+        callback,
+      )
+    })
+
+    it('should start a new trace when the task carries no trace', () => {
+      const callback = vi.fn()
+
+      continueTraceFromTask({ data: null }, callback)
+
+      expect(SentryNode.continueTrace).toHaveBeenCalledWith({ sentryTrace: undefined, baggage: undefined }, callback)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { type SeverityLevel } from '@sentry/node'
+
+export type ErrorOutcome = 'ignore' | 'breadcrumb' | 'handled' | 'unhandled'
+
+export type ErrorClassification = {
+  outcome: ErrorOutcome
+  /**
+   * Rethrows the error once reported, `true` by default. Not rethrowing acknowledges the event, so the function is not
+   * retried for errors that will never succeed. Only event and task triggers honor it, the errors of HTTPS, callable
+   * and blocking functions are always rethrown so their response is still sent.
+   */
+  rethrow?: boolean
+  /** Level of the breadcrumb or of the handled event. */
+  level?: SeverityLevel
+  /** Category of the breadcrumb, `error` by default. */
+  category?: string
+  tags?: Record<string, string | number | boolean>
+  /** Extra data of the captured event, or data of the breadcrumb. */
+  extra?: Record<string, unknown>
+}
+
+/**
+ * Classifies an error thrown by a handler, or returns `undefined` to leave it to the next classifier.
+ */
+export type ErrorClassifier = (error: unknown) => ErrorClassification | undefined
+
+/**
+ * gRPC status codes of the errors thrown by the Firestore Admin SDK.
+ */
+const FIRESTORE_STATUS_CODES = [
+  'ok',
+  'cancelled',
+  'unknown',
+  'invalid-argument',
+  'deadline-exceeded',
+  'not-found',
+  'already-exists',
+  'permission-denied',
+  'resource-exhausted',
+  'failed-precondition',
+  'aborted',
+  'out-of-range',
+  'unimplemented',
+  'internal',
+  'unavailable',
+  'data-loss',
+  'unauthenticated',
+] as const
+
+/**
+ * Codes of contention or overload errors that usually succeed on a later attempt.
+ */
+const FIRESTORE_TRANSIENT_CODES = new Set(['aborted', 'deadline-exceeded', 'resource-exhausted', 'unavailable'])
+
+/**
+ * Codes of errors that will fail the same way on every attempt.
+ */
+const FIRESTORE_PERMANENT_CODES = new Set(['not-found', 'already-exists'])
+
+/**
+ * Returns the classification of the first classifier classifying the error.
+ */
+export const combineErrorClassifiers =
+  (...classifiers: (ErrorClassifier | undefined)[]): ErrorClassifier =>
+  (error) => {
+    for (const classifier of classifiers) {
+      const classification = classifier?.(error)
+      if (classification) return classification
+    }
+    return undefined
+  }
+
+/**
+ * Classifies the instances of an error class, usually one of the application's own error subclasses.
+ */
+export const classifyErrorsOfType =
+  (type: abstract new (...args: never[]) => Error, classification: ErrorClassification): ErrorClassifier =>
+  (error) =>
+    error instanceof type ? classification : undefined
+
+/**
+ * Classifies the errors thrown by the Firestore Admin SDK from their gRPC status code. Transient errors become
+ * breadcrumbs and are rethrown to be retried, `not-found` and `already-exists` are captured as handled and not
+ * rethrown, and the other codes are left to the next classifier.
+ */
+export const classifyFirestoreError: ErrorClassifier = (error) => {
+  if (!(error instanceof Error) || !('code' in error) || typeof error.code !== 'number') {
+    return undefined
+  }
+  const code = FIRESTORE_STATUS_CODES[error.code] as string | undefined
+  if (!code) return undefined
+
+  const tags = { 'firestore.error.code': code }
+  if (FIRESTORE_TRANSIENT_CODES.has(code)) {
+    return { outcome: 'breadcrumb', level: 'warning', category: 'firestore.error', extra: { code } }
+  }
+  if (FIRESTORE_PERMANENT_CODES.has(code)) {
+    return { outcome: 'handled', level: 'warning', rethrow: false, tags }
+  }
+  return undefined
+}
@@ -0,0 +1,47 @@
+import { captureMessage, getActiveSpan, getRootSpan, getSpanDescendants, spanToJSON } from '@sentry/node'
+
+import { captureLoggedErrors } from './logged-errors'
+import { flushSentryEvents } from './sentry-flush'
+import {
+  resolveDeadlineOptions,
+  resolveFlushOptions,
+  type SentryDeadlineOptions,
+  type SentryFlushOptions,
+} from './sentry-wrapper-options'
+
+const activeSpanTree = () => {
+  const span = getActiveSpan()
+  if (!span) return undefined
+  return getSpanDescendants(getRootSpan(span)).map((descendant) => {
+    const { op, description, status, start_timestamp: startTimestamp, timestamp } = spanToJSON(descendant)
+    return { op, description, status, startTimestamp, timestamp }
+  })
+}
+
+/**
+ * Captures a "near timeout" event and flushes once the given fraction of the function timeout has elapsed, since the
+ * platform kills the function at its deadline before the end-of-invocation flush runs. The errors logged so far are
+ * captured first, since they would be lost with the end of the invocation. The flush waits up to the flush timeout of
+ * the wrapper, within the remaining time. Returns a function clearing the timer.
+ */
+export const startDeadlineTimer = (name: string, options?: SentryDeadlineOptions, flush?: SentryFlushOptions) => {
+  const { timeoutSeconds, fraction = 0.9 } = resolveDeadlineOptions(options)
+  if (!timeoutSeconds) {
+    return () => undefined
+  }
+
+  const delay = timeoutSeconds * fraction * 1000
+  const timer = setTimeout(() => {
+    captureLoggedErrors()
+    captureMessage(`${name} is about to time out`, {
+      level: 'warning',
+      tags: { 'timeout.near': true },
+      contexts: {
+        Deadline: { timeoutSeconds, elapsedSeconds: delay / 1000, spans: activeSpanTree() },
+      },
+    })
+    void flushSentryEvents(Math.min(resolveFlushOptions(flush).timeout, timeoutSeconds * 1000 - delay))
+  }, delay)
+  timer.unref()
+  return () => clearTimeout(timer)
+}
@@ -0,0 +1,64 @@
+import { type FunctionsErrorCode, HttpsError } from 'firebase-functions/https'
+
+import { type ErrorClassifier } from './classify-error'
+
+/**
+ * Codes caused by the caller (bad input, missing permissions, ...) that are reported as breadcrumbs only.
+ */
+const CLIENT_ERROR_CODES = new Set<FunctionsErrorCode>([
+  'cancelled',
+  'invalid-argument',
+  'not-found',
+  'already-exists',
+  'permission-denied',
+  'unauthenticated',
+  'failed-precondition',
+  'out-of-range',
+])
+
+/**
+ * Codes that are never expected and must go through the unhandled exception path.
+ */
+const UNEXPECTED_ERROR_CODES = new Set<FunctionsErrorCode>(['internal', 'unknown'])
+
+/**
+ * Classifies an `HttpsError` thrown on purpose by a handler. Client errors become breadcrumbs, other non-internal codes
+ * are captured as handled events. Internal errors and other errors are left to the next classifier.
+ */
+export const classifyHttpsError: ErrorClassifier = (error) => {
+  if (!(error instanceof HttpsError) || UNEXPECTED_ERROR_CODES.has(error.code)) {
+    return undefined
+  }
+
+  if (CLIENT_ERROR_CODES.has(error.code)) {
+    return {
+      outcome: 'breadcrumb',
+      level: 'warning',
+      category: 'https.error',
+      extra: { code: error.code, details: error.details },
+    }
+  }
+  return {
+    outcome: 'handled',
+    level: 'warning',
+    tags: { 'https.error.code': error.code },
+    extra: { details: error.details },
+  }
+}
+
+/**
+ * Classifies an `HttpsError` thrown by an Identity Platform blocking function to reject the operation. The rejection
+ * is captured as a handled `info` event so it stays separate from real crashes.
+ */
+export const classifyAuthBlockingRejection: ErrorClassifier = (error) => {
+  if (!(error instanceof HttpsError) || UNEXPECTED_ERROR_CODES.has(error.code)) {
+    return undefined
+  }
+
+  return {
+    outcome: 'handled',
+    level: 'info',
+    tags: { 'auth.blocked': true, 'https.error.code': error.code },
+    extra: { details: error.details },
+  }
+}
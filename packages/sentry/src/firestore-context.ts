@@ -0,0 +1,161 @@
+import { type Scope } from '@sentry/node'
+import { addLogContext, isPlainObject } from '@valian/function-logger'
+import { type FirestoreAuthEvent, type FirestoreEvent } from 'firebase-functions/firestore'
+
+import { scrubPayload } from './scrub-payload'
+import { type SentryScrubOptions } from './sentry-wrapper-options'
+
+export type FirestoreChangeType = 'create' | 'update' | 'delete'
+
+type FirestoreSnapshot = { exists?: boolean; data: () => unknown }
+
+export type FirestoreDocumentChange = {
+  path: string
+  params?: Record<string, string>
+  before?: FirestoreSnapshot
+  after?: FirestoreSnapshot
+}
+
+type FieldValues = Record<string, unknown>
+
+const isTimestamp = (value: object): value is { toDate: () => Date } =>
+  'toDate' in value && typeof value.toDate === 'function' && 'seconds' in value && 'nanoseconds' in value
+
+const isDocumentReference = (value: object): value is { path: string } =>
+  'path' in value && typeof value.path === 'string' && 'firestore' in value
+
+const isGeoPoint = (value: object): value is { latitude: number; longitude: number } =>
+  'latitude' in value &&
+  typeof value.latitude === 'number' &&
+  'longitude' in value &&
+  typeof value.longitude === 'number'
+
+/**
+ * Converts the Firestore values of a document to their readable form: timestamps become ISO strings, references
+ * their document path and geo points their coordinates.
+ */
+const readableValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(readableValue)
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, readableValue(item)]))
+  }
+  if (typeof value !== 'object' || value === null) return value
+  if (value instanceof Date) return value.toISOString()
+  if (isTimestamp(value)) return value.toDate().toISOString()
+  if (isDocumentReference(value)) return value.path
+  if (isGeoPoint(value)) return { latitude: value.latitude, longitude: value.longitude }
+  return value
+}
+
+/**
+ * Flattens the nested maps of a document into its field paths. Arrays are compared as a whole, like Firestore does.
+ */
+const flattenFields = (value: unknown, prefix = '', fields = new Map<string, string>()) => {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) {
+      flattenFields(item, prefix ? `${prefix}.${key}` : key, fields)
+    }
+  } else if (prefix) {
+    fields.set(prefix, JSON.stringify(value))
+  }
+  return fields
+}
+
+const changedFieldPaths = (before: unknown, after: unknown) => {
+  const beforeFields = flattenFields(before)
+  const afterFields = flattenFields(after)
+  const paths = new Set([...beforeFields.keys(), ...afterFields.keys()])
+  return [...paths].filter((path) => beforeFields.get(path) !== afterFields.get(path)).sort()
+}
+
+/**
+ * Keeps only the given field paths of a document, preserving its nested maps so the scrub rules still apply.
+ */
+const pickFields = (value: unknown, fieldPaths: string[]) => {
+  const picked: FieldValues = {}
+  for (const fieldPath of fieldPaths) {
+    const segments = fieldPath.split('.')
+    let source = value
+    let target = picked
+    for (const [index, segment] of segments.entries()) {
+      if (!isPlainObject(source) || !(segment in source)) break
+      source = source[segment]
+      if (index === segments.length - 1) {
+        target[segment] = source
+      } else {
+        target[segment] = (target[segment] as FieldValues | undefined) ?? {}
+        target = target[segment] as FieldValues
+      }
+    }
+  }
+  return picked
+}
+
+const snapshotData = (snapshot?: FirestoreSnapshot) =>
+  snapshot && snapshot.exists !== false ? readableValue(snapshot.data()) : undefined
+
+/**
+ * Rebuilds the path template of a document, such as `users/{uid}` or `{collection}/{docId}`, by replacing its segments
+ * by the params matching them, in path order. The params are matched from the end of the path, since the wildcards
+ * are closer to the document than the fixed collection ids sharing their value.
+ */
+export const documentPathTemplate = (path: string, params: Record<string, string> = {}) => {
+  const segments = path.split('/')
+  let end = segments.length
+  for (const [key, value] of Object.entries(params).reverse()) {
+    const index = end > 0 ? segments.lastIndexOf(value, end - 1) : -1
+    if (index !== -1) {
+      segments[index] = `{${key}}`
+      end = index
+    }
+  }
+  return segments.join('/')
+}
+
+/**
+ * Builds the `Firestore Document` context of a document change: its change type, the path template and params of
+ * the document, and the old and new values of the changed fields only, scrubbed with the document path.
+ */
+export const firestoreDocumentContext = (change: FirestoreDocumentChange, scrub?: SentryScrubOptions) => {
+  const before = snapshotData(change.before)
+  const after = snapshotData(change.after)
+  const changeType: FirestoreChangeType = before === undefined ? 'create' : after === undefined ? 'delete' : 'update'
+  const changedFields = changedFieldPaths(before, after)
+  return {
+    document: documentPathTemplate(change.path, change.params),
+    params: change.params ?? {},
+    path: change.path,
+    id: change.path.split('/').pop(),
+    changeType,
+    changedFields,
+    ...(before !== undefined && { before: scrubPayload(pickFields(before, changedFields), scrub, change.path) }),
+    ...(after !== undefined && { after: scrubPayload(pickFields(after, changedFields), scrub, change.path) }),
+  }
+}
+
+/**
+ * Tags the change type of a Firestore document, sets its `Firestore Document` context and adds its path to the log
+ * context.
+ */
+export const configureFirestoreScope = (scope: Scope, change: FirestoreDocumentChange, scrub?: SentryScrubOptions) => {
+  const context = firestoreDocumentContext(change, scrub)
+  scope.setTag('firestore.change_type', context.changeType)
+  scope.setContext('Firestore Document', context)
+  addLogContext({ documentPath: change.path })
+}
+
+/**
+ * Tags the type of principal that wrote a document and sets it as the Sentry user and the `uid` of the log context,
+ * for the events of the `*WithAuthContext` triggers. Unauthenticated and system writes have no principal id.
+ */
+export const configureFirestoreAuthScope = (
+  scope: Scope,
+  event: FirestoreEvent<unknown, unknown> | FirestoreAuthEvent<unknown, unknown>,
+) => {
+  if (!('authType' in event)) return
+  scope.setTag('auth.type', event.authType)
+  if (event.authId) {
+    scope.setUser({ id: event.authId })
+    addLogContext({ uid: event.authId })
+  }
+}
@@ -1,3 +1,11 @@
+export * from './classify-error'
 export * from './error-with-sentry-capture-context'
+export * from './expected-https-error'
 export * from './handle-not-awaited-promise'
+export * from './log-breadcrumbs'
+export * from './retry-attempt'
+export * from './scrub-payload'
+export * from './sentry-flush'
 export * from './sentry-wrapper'
+export * from './sentry-wrapper-options'
+export * from './trace-propagation'
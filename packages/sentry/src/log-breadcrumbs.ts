@@ -0,0 +1,39 @@
+import { addBreadcrumb, captureException, type SeverityLevel } from '@sentry/node'
+import { type LogLevel, type LogRecord } from '@valian/function-logger'
+
+import { deferLoggedError } from './logged-errors'
+
+export type SentryLogBreadcrumbsOptions = {
+  /**
+   * Captures the `error` and `fatal` logs carrying an `Error` as handled events. During the invocations of the
+   * wrappers, the capture is deferred to the end of the invocation and skipped for the errors thrown to the wrapper,
+   * which reports them with its error classification. Defaults to `false`.
+   */
+  captureErrors?: boolean
+}
+
+const LOG_LEVEL_SEVERITY: Record<LogLevel, SeverityLevel> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  fatal: 'fatal',
+}
+
+/**
+ * Returns a log listener turning every log call into a Sentry breadcrumb. Add it once with `addLogListener`, which
+ * `@valian/function-logger` and `@valian/pino-logger` share.
+ */
+export const sentryLogBreadcrumbs =
+  ({ captureErrors = false }: SentryLogBreadcrumbsOptions = {}) =>
+  ({ level, message, data, error }: LogRecord) => {
+    const severity = LOG_LEVEL_SEVERITY[level]
+    addBreadcrumb({ category: 'log', level: severity, message: message || error?.message, data })
+    if (captureErrors && error && (level === 'error' || level === 'fatal')) {
+      const hint = { level: severity, extra: { message, ...data } }
+      if (!deferLoggedError(error, hint)) {
+        captureException(error, hint)
+      }
+    }
+  }
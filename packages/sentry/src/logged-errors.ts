@@ -0,0 +1,43 @@
+import { captureException, type SeverityLevel } from '@sentry/node'
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+type LoggedErrorHint = { level: SeverityLevel; extra: Record<string, unknown> }
+
+const loggedErrorsStorage = new AsyncLocalStorage<Map<Error, LoggedErrorHint>>()
+
+/**
+ * Runs the work of an invocation deferring the capture of its logged errors to `captureLoggedErrors`, so the errors
+ * the wrapper reports itself are not captured first as handled events.
+ */
+export const withLoggedErrors = <R>(callback: () => R): R => loggedErrorsStorage.run(new Map(), callback)
+
+/**
+ * Defers the capture of a logged error to the end of the invocation. Returns `false` outside of an invocation.
+ */
+export const deferLoggedError = (error: Error, hint: LoggedErrorHint) => {
+  const loggedErrors = loggedErrorsStorage.getStore()
+  if (!loggedErrors) return false
+  if (!loggedErrors.has(error)) {
+    loggedErrors.set(error, hint)
+  }
+  return true
+}
+
+/**
+ * Drops a logged error thrown to the wrapper, which reports it with its error classification.
+ */
+export const dropLoggedError = (error: unknown) => {
+  loggedErrorsStorage.getStore()?.delete(error as Error)
+}
+
+/**
+ * Captures the errors logged during the invocation that the wrapper did not report, as handled events.
+ */
+export const captureLoggedErrors = () => {
+  const loggedErrors = loggedErrorsStorage.getStore()
+  if (!loggedErrors) return
+  for (const [error, hint] of loggedErrors) {
+    captureException(error, hint)
+  }
+  loggedErrors.clear()
+}
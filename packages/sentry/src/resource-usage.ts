@@ -0,0 +1,83 @@
+import { captureMessage, type Span } from '@sentry/node'
+import { monitorEventLoopDelay } from 'node:perf_hooks'
+
+import { resolveResourceOptions, type SentryResourceOptions } from './sentry-wrapper-options'
+
+export type ResourceUsage = {
+  wallTimeMs: number
+  cpuUserMs: number
+  cpuSystemMs: number
+  heapUsedDeltaBytes: number
+  rssDeltaBytes: number
+  eventLoopDelayMaxMs: number
+  eventLoopDelayMeanMs: number
+}
+
+const NANOSECONDS_PER_MILLISECOND = 1e6
+
+const BYTES_PER_MEGABYTE = 1024 * 1024
+
+/**
+ * Starts measuring the resources used by an invocation. The returned function stops the measurement and returns the
+ * usage. CPU, memory and event loop figures are process wide, so they include concurrent invocations when running with
+ * `concurrency > 1`.
+ */
+export const startResourceMeasurement = () => {
+  const startTime = performance.now()
+  const startCpuUsage = process.cpuUsage()
+  const startMemoryUsage = process.memoryUsage()
+  const eventLoopDelay = monitorEventLoopDelay()
+  eventLoopDelay.enable()
+
+  return (): ResourceUsage => {
+    eventLoopDelay.disable()
+    const cpuUsage = process.cpuUsage(startCpuUsage)
+    const memoryUsage = process.memoryUsage()
+    return {
+      wallTimeMs: performance.now() - startTime,
+      cpuUserMs: cpuUsage.user / 1000,
+      cpuSystemMs: cpuUsage.system / 1000,
+      heapUsedDeltaBytes: memoryUsage.heapUsed - startMemoryUsage.heapUsed,
+      rssDeltaBytes: memoryUsage.rss - startMemoryUsage.rss,
+      eventLoopDelayMaxMs: eventLoopDelay.max / NANOSECONDS_PER_MILLISECOND,
+      eventLoopDelayMeanMs: eventLoopDelay.count > 0 ? eventLoopDelay.mean / NANOSECONDS_PER_MILLISECOND : 0,
+    }
+  }
+}
+
+/**
+ * Attaches the resource usage to the invocation span, and captures a "slow invocation" or "memory spike" event when
+ * the usage goes over the configured thresholds.
+ */
+export const reportResourceUsage = (
+  name: string,
+  span: Span,
+  usage: ResourceUsage,
+  options?: SentryResourceOptions,
+) => {
+  span.setAttributes({
+    'resource.wall_time_ms': usage.wallTimeMs,
+    'resource.cpu_user_ms': usage.cpuUserMs,
+    'resource.cpu_system_ms': usage.cpuSystemMs,
+    'resource.heap_used_delta_bytes': usage.heapUsedDeltaBytes,
+    'resource.rss_delta_bytes': usage.rssDeltaBytes,
+    'resource.event_loop_delay_max_ms': usage.eventLoopDelayMaxMs,
+    'resource.event_loop_delay_mean_ms': usage.eventLoopDelayMeanMs,
+  })
+
+  const { slowInvocationMs, memorySpikeMb } = resolveResourceOptions(options)
+  if (slowInvocationMs !== undefined && usage.wallTimeMs > slowInvocationMs) {
+    captureMessage(`${name} slow invocation`, {
+      level: 'warning',
+      tags: { 'invocation.slow': true },
+      contexts: { 'Resource Usage': usage },
+    })
+  }
+  if (memorySpikeMb !== undefined && usage.rssDeltaBytes > memorySpikeMb * BYTES_PER_MEGABYTE) {
+    captureMessage(`${name} memory spike`, {
+      level: 'warning',
+      tags: { 'invocation.memory_spike': true },
+      contexts: { 'Resource Usage': usage },
+    })
+  }
+}
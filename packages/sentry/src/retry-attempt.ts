@@ -0,0 +1,41 @@
+import { type Scope } from '@sentry/node'
+import { logger } from '@valian/function-logger'
+
+import { resolveRetryOptions, type SentryRetryOptions } from './sentry-wrapper-options'
+
+export type RetryAttempt = {
+  /** Attempt number starting at `1`, when the trigger provides it. */
+  attempt?: number
+  /** Time elapsed since the event was emitted, in milliseconds. */
+  eventAge?: number
+}
+
+export const eventRetryAttempt = (time: string, attempt?: number): RetryAttempt => ({
+  attempt,
+  eventAge: Date.now() - Date.parse(time),
+})
+
+export const configureRetryScope = (scope: Scope, retry: RetryAttempt) => {
+  if (retry.attempt !== undefined) {
+    scope.setTag('retry.attempt', retry.attempt)
+  }
+  scope.setContext('Retry', retry)
+}
+
+const shouldReportFailure = ({ attempt, eventAge }: RetryAttempt, options: SentryRetryOptions) => {
+  if (attempt !== undefined) {
+    return attempt >= Math.max(options.reportFromAttempt ?? 1, options.maxAttempts ?? 1)
+  }
+  return eventAge === undefined || eventAge >= (options.reportAfterEventAge ?? 0)
+}
+
+/**
+ * Returns `true` when the failure of this attempt must not be reported because the trigger will retry it.
+ */
+export const skipRetriedFailure = (retry: RetryAttempt, options?: SentryRetryOptions) => (error: unknown) => {
+  if (shouldReportFailure(retry, resolveRetryOptions(options))) {
+    return false
+  }
+  logger.warn('Failure not reported to Sentry, waiting for the next attempt', { ...retry, error })
+  return true
+}
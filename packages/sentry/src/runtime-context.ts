@@ -0,0 +1,47 @@
+import { type Scope } from '@sentry/node'
+import { randomUUID } from 'node:crypto'
+
+/**
+ * Identifies the running instance, generated once per process.
+ */
+const instanceId = randomUUID()
+
+let coldStart = true
+
+const memoryLimitMb = () => {
+  if (process.env.FUNCTION_MEMORY_MB) {
+    return Number(process.env.FUNCTION_MEMORY_MB)
+  }
+  // 2nd gen functions don't expose their memory limit, read the cgroup constraint instead
+  const constrainedMemory = process.constrainedMemory()
+  return constrainedMemory > 0 ? Math.round(constrainedMemory / 1024 / 1024) : undefined
+}
+
+/**
+ * Returns the runtime metadata exposed by the Cloud Functions and Cloud Run environment variables.
+ */
+export const runtimeContext = () => ({
+  service: process.env.K_SERVICE,
+  revision: process.env.K_REVISION,
+  region: process.env.FUNCTION_REGION,
+  project: process.env.GCLOUD_PROJECT ?? process.env.GOOGLE_CLOUD_PROJECT,
+  memoryLimitMb: memoryLimitMb(),
+  instanceId,
+})
+
+/**
+ * Adds the runtime context to the scope, tagging `cold_start` on the first invocation of the instance only.
+ */
+export const configureRuntimeScope = (scope: Scope) => {
+  scope.setTag('cold_start', coldStart)
+  coldStart = false
+
+  const context = runtimeContext()
+  if (context.revision) {
+    scope.setTag('function.revision', context.revision)
+  }
+  if (context.region) {
+    scope.setTag('function.region', context.region)
+  }
+  scope.setContext('Function Runtime', context)
+}
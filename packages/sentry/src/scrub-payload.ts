@@ -0,0 +1,81 @@
+import { isPlainObject } from '@valian/function-logger'
+
+import { resolveScrubOptions, type SentryScrubOptions } from './sentry-wrapper-options'
+
+const FILTERED = '[Filtered]'
+
+type ScrubRules = {
+  denyKeys: Set<string>
+  allowKeys?: Set<string>
+  pathMasks: RegExp[]
+  maxStringLength: number
+}
+
+const escapeRegExp = (value: string) => value.replaceAll(/[$()+.?[\\\]^{|}]/g, String.raw`\$&`)
+
+const globToRegExp = (glob: string) => {
+  const pattern = glob
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment === '**' ? '(?:/[^/]+)*' : `/${segment.split('*').map(escapeRegExp).join('[^/]*')}`))
+    .join('')
+  return new RegExp(`^${pattern}$`)
+}
+
+const joinPath = (path: string, key: string) => `${path}/${key}`
+
+const truncationMarker = (length: number) => `…[truncated ${length} chars]`
+
+const truncate = (value: string, maxLength: number) =>
+  value.length > maxLength ? value.slice(0, maxLength) + truncationMarker(value.length - maxLength) : value
+
+const scrubValue = (value: unknown, path: string, allowed: boolean, rules: ScrubRules): unknown => {
+  if (rules.pathMasks.some((mask) => mask.test(path))) return FILTERED
+  if (Array.isArray(value)) {
+    return value.map((item, index) => scrubValue(item, joinPath(path, String(index)), allowed, rules))
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const normalizedKey = key.toLowerCase()
+        if (rules.denyKeys.has(normalizedKey)) return [key, FILTERED]
+        return [key, scrubValue(item, joinPath(path, key), allowed || !!rules.allowKeys?.has(normalizedKey), rules)]
+      }),
+    )
+  }
+  if (!allowed) return FILTERED
+  return typeof value === 'string' ? truncate(value, rules.maxStringLength) : value
+}
+
+const scrub = (value: unknown, path: string, options?: SentryScrubOptions) => {
+  const { denyKeys, allowKeys, pathMasks, maxStringLength, maxPayloadLength } = resolveScrubOptions(options)
+  const rules: ScrubRules = {
+    denyKeys: new Set(denyKeys.map((key) => key.toLowerCase())),
+    allowKeys: allowKeys.length > 0 ? new Set(allowKeys.map((key) => key.toLowerCase())) : undefined,
+    pathMasks: pathMasks.map(globToRegExp),
+    maxStringLength,
+  }
+  const root = path.split('/').filter(Boolean).join('/')
+  return { scrubbed: scrubValue(value, root ? `/${root}` : '', !rules.allowKeys, rules), maxPayloadLength }
+}
+
+/**
+ * Scrubs a payload before it is attached to a Sentry event, filtering denied keys and masked paths, and truncating
+ * long strings. A payload still too large once serialized is replaced by its truncated JSON.
+ *
+ * `path` is the document or database path of the payload, matched by the `pathMasks`.
+ */
+export const scrubPayload = (value: unknown, options?: SentryScrubOptions, path = ''): unknown => {
+  const { scrubbed, maxPayloadLength } = scrub(value, path, options)
+  const serialized = JSON.stringify(scrubbed) as string | undefined
+  return serialized && serialized.length > maxPayloadLength ? truncate(serialized, maxPayloadLength) : scrubbed
+}
+
+/**
+ * Scrubs a payload like `scrubPayload` and serializes it as indented JSON, truncated when too large.
+ */
+export const serializePayload = (value: unknown, options?: SentryScrubOptions, path = '') => {
+  const { scrubbed, maxPayloadLength } = scrub(value, path, options)
+  const serialized = JSON.stringify(scrubbed, null, 2) as string | undefined
+  return serialized && truncate(serialized, maxPayloadLength)
+}
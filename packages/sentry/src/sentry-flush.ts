@@ -0,0 +1,25 @@
+import { flush, getClient } from '@sentry/node'
+import { logger } from '@valian/function-logger'
+
+import { resolveFlushOptions } from './sentry-wrapper-options'
+
+/**
+ * Flushes the queued events, logging a warning when the timeout is reached before the queue is drained.
+ */
+export const flushSentryEvents = async (timeout = resolveFlushOptions().timeout) => {
+  const drained = await flush(timeout)
+  if (!drained && getClient()) {
+    logger.warn(`Sentry flush timed out after ${timeout}ms with events still queued`)
+  }
+  return drained
+}
+
+/**
+ * Flushes the queued events every `interval` milliseconds. Meant for v2 functions running with `concurrency > 1`,
+ * combined with the `never` flush mode. Returns a function stopping the periodic flush.
+ */
+export const startPeriodicSentryFlush = (interval = 10_000) => {
+  const timer = setInterval(() => void flushSentryEvents(), interval)
+  timer.unref()
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,118 @@
+import { type ErrorClassification, type ErrorClassifier } from './classify-error'
+
+export type SentryFlushOptions = {
+  /** Maximum time to wait for queued events to be sent, in milliseconds. Defaults to `5000`. */
+  timeout?: number
+  /**
+   * When to flush at the end of an invocation:
+   * - `always` (default): after every invocation
+   * - `on-error`: only when the invocation throws or captures an event, such as a handled error or a slow invocation
+   * - `never`: rely on `startPeriodicSentryFlush` instead, for v2 functions running with `concurrency > 1`
+   */
+  mode?: 'always' | 'on-error' | 'never'
+}
+
+export type SentryScrubOptions = {
+  /** Keys whose values are replaced by `[Filtered]` at any depth, case insensitive. Merged with the global ones. */
+  denyKeys?: string[]
+  /** When set, only values under these keys are kept, case insensitive. Replaces the global ones. */
+  allowKeys?: string[]
+  /**
+   * Glob masks filtering whole values by path, `*` matching one segment and `**` any number of segments. The path of
+   * a value is its document path followed by its keys. Merged with the global ones.
+   */
+  pathMasks?: string[]
+  /** Maximum length of a string value before it is truncated. Defaults to `1024`. */
+  maxStringLength?: number
+  /** Maximum length of a serialized payload before it is truncated. Defaults to `16384`. */
+  maxPayloadLength?: number
+}
+
+export type SentryRetryOptions = {
+  /** Only reports failures from this attempt onward, when the attempt number is known. Defaults to `1`. */
+  reportFromAttempt?: number
+  /** Maximum number of attempts of the task queue or subscription, only the failure of the last one is reported. */
+  maxAttempts?: number
+  /** Only reports failures of events older than this, in milliseconds, when the attempt number is unknown. */
+  reportAfterEventAge?: number
+}
+
+export type SentryDeadlineOptions = {
+  /** The `timeoutSeconds` of the function, read from `FUNCTION_TIMEOUT_SEC` by default. */
+  timeoutSeconds?: number
+  /** Fraction of the timeout after which a "near timeout" event is captured. Defaults to `0.9`. */
+  fraction?: number
+}
+
+export type SentryResourceOptions = {
+  /** Wall time in milliseconds above which a "slow invocation" event is captured. */
+  slowInvocationMs?: number
+  /** RSS growth in megabytes above which a "memory spike" event is captured. */
+  memorySpikeMb?: number
+}
+
+/**
+ * Options accepted by every wrapper. They take precedence over the ones given to `configureSentryWrappers`.
+ */
+export type SentryWrapperOptions = {
+  flush?: SentryFlushOptions
+  scrub?: SentryScrubOptions
+  retry?: SentryRetryOptions
+  /** Classifies the errors thrown by the handler, falling back to the global classifier, then the built-in ones. */
+  classifyError?: ErrorClassifier
+  deadline?: SentryDeadlineOptions
+  resources?: SentryResourceOptions
+}
+
+/**
+ * Options of a wrapper, named after the function. Extend it to add the options of a `createSentryWrapper` trigger.
+ */
+export type SentryWrapperParams = SentryWrapperOptions & {
+  /** Name of the function, used as the span name, the `function.name` tag and the cron monitor slug. */
+  name: string
+}
+
+let globalOptions: SentryWrapperOptions = {}
+
+/**
+ * Sets the options applied to every wrapper, replacing the previously configured ones.
+ */
+export const configureSentryWrappers = (options: SentryWrapperOptions) => {
+  globalOptions = options
+}
+
+export const resolveFlushOptions = (options?: SentryFlushOptions): Required<SentryFlushOptions> => ({
+  timeout: options?.timeout ?? globalOptions.flush?.timeout ?? 5000,
+  mode: options?.mode ?? globalOptions.flush?.mode ?? 'always',
+})
+
+export const resolveScrubOptions = (options?: SentryScrubOptions): Required<SentryScrubOptions> => ({
+  denyKeys: [...(globalOptions.scrub?.denyKeys ?? []), ...(options?.denyKeys ?? [])],
+  allowKeys: options?.allowKeys ?? globalOptions.scrub?.allowKeys ?? [],
+  pathMasks: [...(globalOptions.scrub?.pathMasks ?? []), ...(options?.pathMasks ?? [])],
+  maxStringLength: options?.maxStringLength ?? globalOptions.scrub?.maxStringLength ?? 1024,
+  maxPayloadLength: options?.maxPayloadLength ?? globalOptions.scrub?.maxPayloadLength ?? 16_384,
+})
+
+export const resolveRetryOptions = (options?: SentryRetryOptions): SentryRetryOptions => ({
+  ...globalOptions.retry,
+  ...options,
+})
+
+export const resolveErrorClassifier =
+  (classifier?: ErrorClassifier, fallback?: ErrorClassifier) =>
+  (error: unknown): ErrorClassification =>
+    classifier?.(error) ?? globalOptions.classifyError?.(error) ?? fallback?.(error) ?? { outcome: 'unhandled' }
+
+export const resolveDeadlineOptions = (options?: SentryDeadlineOptions): SentryDeadlineOptions => ({
+  timeoutSeconds:
+    options?.timeoutSeconds ??
+    globalOptions.deadline?.timeoutSeconds ??
+    (process.env.FUNCTION_TIMEOUT_SEC ? Number(process.env.FUNCTION_TIMEOUT_SEC) : undefined),
+  fraction: options?.fraction ?? globalOptions.deadline?.fraction ?? 0.9,
+})
+
+export const resolveResourceOptions = (options?: SentryResourceOptions): SentryResourceOptions => ({
+  ...globalOptions.resources,
+  ...options,
+})
@@ -1,17 +1,78 @@
-import { addExceptionMechanism, type StartSpanOptions } from '@sentry/core'
-import { captureException, flush, type Scope, startSpan, withScope } from '@sentry/node'
-import { logger } from '@valian/function-logger'
+import {
+  addExceptionMechanism,
+  type MonitorConfig,
+  type Span,
+  spanIsSampled,
+  type StartSpanOptions,
+} from '@sentry/core'
+import {
+  addBreadcrumb,
+  captureException,
+  captureMessage,
+  continueTrace,
+  getActiveSpan,
+  getCurrentScope,
+  type Scope,
+  setHttpStatus,
+  startSpan,
+  withIsolationScope,
+  withMonitor,
+  withScope,
+} from '@sentry/node'
+import {
+  addLogContext,
+  extractTraceContext,
+  getTraceContext,
+  logger,
+  type TraceContext,
+  withLogContext,
+  withTraceContext,
+} from '@valian/function-logger'
+import { type AlertEvent } from 'firebase-functions/alerts'
+import { type AppDistributionEvent } from 'firebase-functions/alerts/appDistribution'
+import { type BillingEvent } from 'firebase-functions/alerts/billing'
+import { type CrashlyticsEvent } from 'firebase-functions/alerts/crashlytics'
 import { type CloudEvent } from 'firebase-functions/core'
+import { type DatabaseEvent, type DataSnapshot } from 'firebase-functions/database'
 import { type FirestoreEvent } from 'firebase-functions/firestore'
+import {
+  type CallableRequest,
+  type CallableResponse,
+  type HttpsFunction,
+  type Request as HttpsRequest,
+} from 'firebase-functions/https'
+import { type AuthBlockingEvent } from 'firebase-functions/identity'
 import { type MessagePublishedData } from 'firebase-functions/pubsub'
+import { type ConfigUpdateData } from 'firebase-functions/remoteConfig'
 import { type ScheduledEvent } from 'firebase-functions/scheduler'
+import { type StorageEvent, type StorageObjectData } from 'firebase-functions/storage'
 import { type Request } from 'firebase-functions/tasks'
+import { type TestMatrixCompletedData } from 'firebase-functions/testLab'
 import { type Change, type EventContext } from 'firebase-functions/v1'
 import { type UserRecord } from 'firebase-functions/v1/auth'
-import { type DocumentSnapshot } from 'firebase-functions/v1/firestore'
+import { type CallableContext } from 'firebase-functions/v1/https'
+import { type DocumentSnapshot, type QueryDocumentSnapshot } from 'firebase-functions/v1/firestore'
 import { type Message } from 'firebase-functions/v1/pubsub'
+import { type ObjectMetadata } from 'firebase-functions/v1/storage'
 
-type SentryWrapperParams = { name: string }
+import { type ErrorClassification } from './classify-error'
+import { startDeadlineTimer } from './deadline-timer'
+import { classifyAuthBlockingRejection, classifyHttpsError } from './expected-https-error'
+import { configureFirestoreAuthScope, configureFirestoreScope, type FirestoreDocumentChange } from './firestore-context'
+import { captureLoggedErrors, dropLoggedError, withLoggedErrors } from './logged-errors'
+import { configureRetryScope, eventRetryAttempt, type RetryAttempt, skipRetriedFailure } from './retry-attempt'
+import { reportResourceUsage, startResourceMeasurement } from './resource-usage'
+import { configureRuntimeScope } from './runtime-context'
+import { scrubPayload } from './scrub-payload'
+import { flushSentryEvents } from './sentry-flush'
+import {
+  resolveErrorClassifier,
+  resolveFlushOptions,
+  type SentryScrubOptions,
+  type SentryWrapperOptions,
+  type SentryWrapperParams,
+} from './sentry-wrapper-options'
+import { continueTraceFromAttributes, continueTraceFromTask } from './trace-propagation'
 
 /**
  * Marks an event as unhandled by adding a span processor to the passed scope.
@@ -25,12 +86,24 @@ export function markEventUnhandled(scope: Scope): Scope {
   return scope
 }
 
-const sentryCaptureUnhandledExceptionWrapper =
-  <R>(work: () => Promise<R>, captureContext?: (scope: Scope) => Scope) =>
-  async () => {
-    try {
-      return await work()
-    } catch (error) {
+const reportClassifiedError = (
+  error: unknown,
+  { outcome, level, category = 'error', tags, extra }: ErrorClassification,
+  captureContext?: (scope: Scope) => Scope,
+) => {
+  switch (outcome) {
+    case 'ignore': {
+      break
+    }
+    case 'breadcrumb': {
+      addBreadcrumb({ category, level, message: error instanceof Error ? error.message : String(error), data: extra })
+      break
+    }
+    case 'handled': {
+      captureException(error, { level, tags, extra })
+      break
+    }
+    case 'unhandled': {
       // Unhandled exceptions are automatically logged when run in Firebase in production, but not in the emulator in
       // development.
       if (process.env.NODE_ENV !== 'production') {
@@ -38,84 +111,365 @@ const sentryCaptureUnhandledExceptionWrapper =
       }
       captureException(error, (scope) => {
         markEventUnhandled(scope)
+        if (tags) scope.setTags(tags)
+        if (extra) scope.setExtras(extra)
         return captureContext?.(scope) ?? scope
       })
-      throw error
+      break
     }
   }
+}
+
+const sentryCaptureUnhandledExceptionWrapper =
+  <R>(
+    work: () => Promise<R>,
+    classifyError: (error: unknown) => ErrorClassification,
+    captureContext?: (scope: Scope) => Scope,
+  ) =>
+  async () => {
+    try {
+      return await work()
+    } catch (error) {
+      const classification = classifyError(error)
+      reportClassifiedError(error, classification, captureContext)
+      dropLoggedError(error)
+      if (classification.rethrow ?? true) {
+        throw error
+      }
+      return undefined
+    }
+  }
+
+/**
+ * Classifies errors like `resolveErrorClassifier`, ignoring the reported failures of the attempts that will be retried.
+ */
+const retryAwareErrorClassifier = (options: SentryWrapperParams, retry: RetryAttempt) => {
+  const classifyError = resolveErrorClassifier(options.classifyError)
+  const skipFailure = skipRetriedFailure(retry, options.retry)
+  return (error: unknown): ErrorClassification => {
+    const classification = classifyError(error)
+    const reported = classification.outcome === 'handled' || classification.outcome === 'unhandled'
+    return reported && classification.rethrow !== false && skipFailure(error) ? { outcome: 'ignore' } : classification
+  }
+}
+
+/**
+ * Rethrows every error of the request/response functions, whose request would otherwise hang or succeed. `rethrow` only
+ * acknowledges the events of event and task triggers.
+ */
+const withAlwaysRethrow =
+  (classifyError: (error: unknown) => ErrorClassification) =>
+  (error: unknown): ErrorClassification => ({ ...classifyError(error), rethrow: true })
 
+const spanTraceContext = (span: Span): TraceContext => ({
+  traceId: span.spanContext().traceId,
+  spanId: span.spanContext().spanId,
+  sampled: spanIsSampled(span),
+})
+
+/**
+ * Runs the work of an invocation in its span and scope. The logs of the invocation are correlated with the trace of
+ * its request or event, or with the trace of the span when there is none, and carry the fields added to the log
+ * context while configuring the scope.
+ */
 export async function sentryConfigurationWrapper<R>(
   context: StartSpanOptions,
   configure: (scope: Scope) => void,
   work: () => Promise<R>,
+  options: SentryWrapperOptions = {},
 ) {
+  const { timeout, mode } = resolveFlushOptions(options.flush)
+  let failed = false
+  let captured = false
   try {
-    return await startSpan(context, async () =>
-      withScope(async (scope) => {
-        configure(scope)
-        return work()
-      }),
+    return await startSpan(context, async (span) =>
+      withTraceContext(getTraceContext() ?? spanTraceContext(span), async () =>
+        withLogContext({}, async () =>
+          withIsolationScope(async (isolationScope) =>
+            withScope(async (scope) =>
+              withLoggedErrors(async () => {
+                // Sentry records the last event on the isolation scope, and the forked one inherits the last event of
+                // its parent: a new one means this invocation captured an event
+                const parentEventId = isolationScope.lastEventId()
+                configureRuntimeScope(scope)
+                configure(scope)
+                const clearDeadlineTimer = startDeadlineTimer(context.name, options.deadline, options.flush)
+                const stopResourceMeasurement = startResourceMeasurement()
+                try {
+                  return await work()
+                } finally {
+                  clearDeadlineTimer()
+                  captureLoggedErrors()
+                  reportResourceUsage(context.name, span, stopResourceMeasurement(), options.resources)
+                  captured = isolationScope.lastEventId() !== parentEventId
+                }
+              }),
+            ),
+          ),
+        ),
+      ),
     )
+  } catch (error) {
+    failed = true
+    throw error
   } finally {
-    await flush(5000)
+    if (mode === 'always' || (mode === 'on-error' && (failed || captured))) {
+      await flushSentryEvents(timeout)
+    }
   }
 }
 
+type SentryWrapperFactoryParams<A extends unknown[], O extends SentryWrapperParams> = {
+  /** Maps the handler arguments to the options of the invocation span. */
+  spanOptions: (options: O, ...args: A) => StartSpanOptions
+  /** Adds the tags and contexts of the trigger to the scope. */
+  configureScope?: (scope: Scope, options: O, ...args: A) => void
+  /** Tagged as `function.version`, `v2` by default. */
+  version?: 'v1' | 'v2'
+  /** Maps the handler arguments to the retry attempt of the invocation, enabling retry-aware reporting. */
+  retryAttempt?: (...args: A) => RetryAttempt
+  /**
+   * Maps the handler arguments to the carrier of the `traceparent` or `X-Cloud-Trace-Context` correlating the logs,
+   * such as the CloudEvent or the request headers.
+   */
+  traceCarrier?: (...args: A) => object | undefined
+  /** Rethrows every error whatever its classification, for request/response style triggers. */
+  alwaysRethrow?: boolean
+}
+
+/**
+ * Creates a wrapper for a trigger type not covered by the built-in wrappers, which build the event triggers too. The
+ * wrapper opens the invocation span, tags the function name and version, correlates the logs with the trace of the
+ * trigger, configures the scope and reports the errors of the handler, honoring the flush, retry and error
+ * classification options.
+ */
+export const createSentryWrapper =
+  <A extends unknown[], O extends SentryWrapperParams = SentryWrapperParams>({
+    spanOptions,
+    configureScope,
+    version = 'v2',
+    retryAttempt,
+    traceCarrier,
+    alwaysRethrow = false,
+  }: SentryWrapperFactoryParams<A, O>) =>
+  <R>(options: O, handler: (...args: A) => Promise<R>) =>
+  async (...args: A) => {
+    const retry = retryAttempt?.(...args)
+    const classifyError = retry
+      ? retryAwareErrorClassifier(options, retry)
+      : resolveErrorClassifier(options.classifyError)
+    return withTraceContext(extractTraceContext(traceCarrier?.(...args)), async () =>
+      sentryConfigurationWrapper(
+        spanOptions(options, ...args),
+        (scope) => {
+          scope.setTag('function.version', version)
+          scope.setTag('function.name', options.name)
+          addLogContext({ functionName: options.name })
+          if (retry) {
+            configureRetryScope(scope, retry)
+          }
+          configureScope?.(scope, options, ...args)
+        },
+        sentryCaptureUnhandledExceptionWrapper(
+          () => handler(...args),
+          alwaysRethrow ? withAlwaysRethrow(classifyError) : classifyError,
+        ),
+        options,
+      ),
+    )
+  }
+
+const storageObjectContext = (object: StorageObjectData | ObjectMetadata) => ({
+  bucket: object.bucket,
+  name: object.name,
+  contentType: object.contentType,
+  size: object.size,
+  generation: object.generation,
+  metageneration: object.metageneration,
+})
+
+/**
+ * Summarizes a snapshot, with its value when it is a leaf, scrubbed with the ref so the path masks apply.
+ */
+const dataSnapshotSummary = (snapshot: DataSnapshot, ref: string, scrub?: SentryScrubOptions) => ({
+  exists: snapshot.exists(),
+  numChildren: snapshot.numChildren(),
+  ...(!snapshot.hasChildren() && { value: scrubPayload(snapshot.val(), scrub, ref) }),
+})
+
+const databaseDataSummary = (data: DataSnapshot | Change<DataSnapshot>, ref: string, scrub?: SentryScrubOptions) =>
+  'before' in data
+    ? { before: dataSnapshotSummary(data.before, ref, scrub), after: dataSnapshotSummary(data.after, ref, scrub) }
+    : { snapshot: dataSnapshotSummary(data, ref, scrub) }
+
+const firestoreEventChange = <T, P>(event: FirestoreEvent<T, P>): FirestoreDocumentChange => {
+  const data = event.data as DocumentSnapshot | Change<DocumentSnapshot> | undefined
+  const change = { path: event.document, params: event.params as Record<string, string> }
+  if (data && 'before' in data) return { ...change, before: data.before, after: data.after }
+  return event.type.includes('.deleted') ? { ...change, before: data } : { ...change, after: data }
+}
+
+const pubSubMessageContext = (json: unknown, options: SentryWrapperParams) => {
+  const payload = scrubPayload(json, options.scrub)
+  return typeof payload === 'string' ? { json: payload } : (payload as Record<string, unknown>)
+}
+
+type SentryMonitorConfig = Omit<MonitorConfig, 'schedule'> & {
+  /** The crontab schedule given to `onSchedule` or `pubsub.schedule`. */
+  schedule: string
+}
+
+type SentryScheduleWrapperParams = SentryWrapperParams & {
+  /**
+   * Sends Sentry Crons check-ins under the `name` monitor slug, enabled by default. Pass the schedule to upsert the
+   * monitor so missed or hung runs raise alerts.
+   */
+  monitor?: boolean | SentryMonitorConfig
+}
+
+const sentryMonitorWrapper =
+  <R>(options: SentryScheduleWrapperParams, work: () => Promise<R>) =>
+  async () => {
+    if (options.monitor === false) {
+      return work()
+    }
+    if (options.monitor === true || options.monitor === undefined) {
+      return withMonitor(options.name, work)
+    }
+    const { schedule, ...config } = options.monitor
+    return withMonitor(options.name, work, { schedule: { type: 'crontab', value: schedule }, ...config })
+  }
+
+const DATABASE_RESOURCE_PATTERN = /^projects\/[^/]+\/instances\/([^/]+)\/refs(\/.*)?$/
+
+type ConfigureTriggerScope = (scope: Scope) => void
+
+/**
+ * Wraps the v1 event triggers, each adding its own tags and contexts with the `configure` argument.
+ */
+const sentryEventContextV1Wrapper = createSentryWrapper<[EventContext<unknown>, ConfigureTriggerScope]>({
+  spanOptions: (options, context) => ({ name: options.name, op: context.eventType }),
+  configureScope: (scope, _options, context, configure) => {
+    configure(scope)
+    addLogContext({ eventId: context.eventId })
+    scope.setContext('Firebase Context', {
+      eventId: context.eventId,
+      eventType: context.eventType,
+      resource: context.resource,
+      timestamp: context.timestamp,
+    })
+  },
+  version: 'v1',
+  retryAttempt: (context) => eventRetryAttempt(context.timestamp),
+})
+
 const sentryInvocationV1Wrapper = <R, EC>(
   options: SentryWrapperParams,
   context: EventContext<EC>,
-  configure: (scope: Scope) => void,
+  configure: ConfigureTriggerScope,
   work: () => Promise<R>,
-) =>
-  sentryConfigurationWrapper(
-    { name: options.name, op: context.eventType },
-    (scope) => {
-      configure(scope)
-      scope.setTag('function.version', 'v1')
-      scope.setTag('function.name', options.name)
-      scope.setContext('Firebase Context', {
-        eventId: context.eventId,
-        eventType: context.eventType,
-        resource: context.resource,
-        timestamp: context.timestamp,
-      })
-    },
-    sentryCaptureUnhandledExceptionWrapper(work),
-  )
+) => sentryEventContextV1Wrapper(options, work)(context, configure)
 
 export const sentryOnPublishV1Wrapper =
   <R, EC>(options: SentryWrapperParams, handler: (event: Message, context: EventContext<EC>) => Promise<R>) =>
   (message: Message, context: EventContext<EC>) =>
+    continueTraceFromAttributes(message.attributes, () =>
+      sentryInvocationV1Wrapper(
+        options,
+        context,
+        (scope) => {
+          scope.setContext('PubSub Message', pubSubMessageContext(message.json, options))
+        },
+        () => handler(message, context),
+      ),
+    )
+
+export const sentryOnWriteV1Wrapper =
+  <R, EC>(
+    options: SentryWrapperParams,
+    handler: (change: Change<DocumentSnapshot>, context: EventContext<EC>) => Promise<R>,
+  ) =>
+  (change: Change<DocumentSnapshot>, context: EventContext<EC>) =>
     sentryInvocationV1Wrapper(
       options,
       context,
       (scope) => {
-        scope.setContext('PubSub Message', message.json as Record<string, unknown>)
+        configureFirestoreScope(
+          scope,
+          {
+            path: change.after.ref.path,
+            params: context.params as Record<string, string>,
+            before: change.before,
+            after: change.after,
+          },
+          options.scrub,
+        )
       },
-      () => handler(message, context),
+      () => handler(change, context),
     )
 
-export const sentryOnWriteV1Wrapper =
+export const sentryOnCreateV1Wrapper =
   <R, EC>(
     options: SentryWrapperParams,
-    handler: (change: Change<DocumentSnapshot>, context: EventContext<EC>) => Promise<R>,
+    handler: (snapshot: QueryDocumentSnapshot, context: EventContext<EC>) => Promise<R>,
   ) =>
-  (change: Change<DocumentSnapshot>, context: EventContext<EC>) =>
+  (snapshot: QueryDocumentSnapshot, context: EventContext<EC>) =>
     sentryInvocationV1Wrapper(
       options,
       context,
       (scope) => {
-        scope.setContext('Firestore Document', {
-          param: context.params,
-          id: change.before.ref.id,
-          path: change.before.ref.path,
-          before: JSON.stringify(change.before.data(), null, 2),
-          after: JSON.stringify(change.after.data(), null, 2),
-        })
+        configureFirestoreScope(
+          scope,
+          { path: snapshot.ref.path, params: context.params as Record<string, string>, after: snapshot },
+          options.scrub,
+        )
+      },
+      () => handler(snapshot, context),
+    )
+
+export const sentryOnUpdateV1Wrapper =
+  <R, EC>(
+    options: SentryWrapperParams,
+    handler: (change: Change<QueryDocumentSnapshot>, context: EventContext<EC>) => Promise<R>,
+  ) =>
+  (change: Change<QueryDocumentSnapshot>, context: EventContext<EC>) =>
+    sentryInvocationV1Wrapper(
+      options,
+      context,
+      (scope) => {
+        configureFirestoreScope(
+          scope,
+          {
+            path: change.after.ref.path,
+            params: context.params as Record<string, string>,
+            before: change.before,
+            after: change.after,
+          },
+          options.scrub,
+        )
       },
       () => handler(change, context),
     )
 
+export const sentryOnDeleteV1Wrapper =
+  <R, EC>(
+    options: SentryWrapperParams,
+    handler: (snapshot: QueryDocumentSnapshot, context: EventContext<EC>) => Promise<R>,
+  ) =>
+  (snapshot: QueryDocumentSnapshot, context: EventContext<EC>) =>
+    sentryInvocationV1Wrapper(
+      options,
+      context,
+      (scope) => {
+        configureFirestoreScope(
+          scope,
+          { path: snapshot.ref.path, params: context.params as Record<string, string>, before: snapshot },
+          options.scrub,
+        )
+      },
+      () => handler(snapshot, context),
+    )
+
 export const sentryOnUserChangeV1Wrapper =
   <R>(options: SentryWrapperParams, handler: (user: UserRecord, context: EventContext) => Promise<R>) =>
   (user: UserRecord, context: EventContext) =>
@@ -124,54 +478,119 @@ export const sentryOnUserChangeV1Wrapper =
       context,
       (scope) => {
         scope.setUser({ id: user.uid })
+        addLogContext({ uid: user.uid })
       },
       () => handler(user, context),
     )
 
 export const sentryOnScheduleRunV1Wrapper =
-  <R>(options: SentryWrapperParams, handler: (context: EventContext) => Promise<R>) =>
+  <R>(options: SentryScheduleWrapperParams, handler: (context: EventContext) => Promise<R>) =>
   (context: EventContext) =>
     sentryInvocationV1Wrapper(
       options,
       context,
       // eslint-disable-next-line @typescript-eslint/no-empty-function -- No need to configure the scope
       () => {},
-      () => handler(context),
+      sentryMonitorWrapper(options, () => handler(context)),
     )
 
+export const sentryOnObjectChangeV1Wrapper =
+  <R>(options: SentryWrapperParams, handler: (object: ObjectMetadata, context: EventContext) => Promise<R>) =>
+  (object: ObjectMetadata, context: EventContext) =>
+    sentryInvocationV1Wrapper(
+      options,
+      context,
+      (scope) => {
+        scope.setContext('Storage Object', storageObjectContext(object))
+      },
+      () => handler(object, context),
+    )
+
+export const sentryOnDatabaseChangeV1Wrapper =
+  <T extends DataSnapshot | Change<DataSnapshot>, R, EC>(
+    options: SentryWrapperParams,
+    handler: (data: T, context: EventContext<EC>) => Promise<R>,
+  ) =>
+  (data: T, context: EventContext<EC>) =>
+    sentryInvocationV1Wrapper(
+      options,
+      context,
+      (scope) => {
+        const [, instance, ref = '/'] = DATABASE_RESOURCE_PATTERN.exec(context.resource.name) ?? []
+        scope.setContext('Realtime Database', {
+          ref,
+          instance,
+          params: context.params as Record<string, string>,
+          ...databaseDataSummary(data, ref, options.scrub),
+        })
+      },
+      () => handler(data, context),
+    )
+
+/**
+ * Wraps the v2 event triggers, each adding its own tags and contexts with the `configure` argument, and overriding the
+ * retry attempt read from the event when it knows the delivery attempt.
+ */
+const sentryCloudEventV2Wrapper = createSentryWrapper<[CloudEvent<unknown>, ConfigureTriggerScope, RetryAttempt?]>({
+  spanOptions: (options, event) => ({ name: options.name, op: event.type }),
+  configureScope: (scope, _options, event, configure) => {
+    configure(scope)
+    addLogContext({ eventId: event.id })
+    scope.setContext('Firebase Context', {
+      eventId: event.id,
+      eventType: event.type,
+      source: event.source,
+      subject: event.subject,
+      timestamp: event.time,
+    })
+  },
+  retryAttempt: (event, _configure, retry = eventRetryAttempt(event.time)) => retry,
+  traceCarrier: (event) => event,
+})
+
 const sentryInvocationV2Wrapper = <R, T>(
   options: SentryWrapperParams,
   event: CloudEvent<T>,
-  configure: (scope: Scope) => void,
+  configure: ConfigureTriggerScope,
   work: () => Promise<R>,
-) =>
-  sentryConfigurationWrapper(
-    { name: options.name, op: event.type },
-    (scope) => {
-      configure(scope)
-      scope.setTag('function.version', 'v2')
-      scope.setTag('function.name', options.name)
-      scope.setContext('Firebase Context', {
-        eventId: event.id,
-        eventType: event.type,
-        source: event.source,
-        subject: event.subject,
-        timestamp: event.time,
-      })
-    },
-    sentryCaptureUnhandledExceptionWrapper(work),
-  )
+  retry?: RetryAttempt,
+) => sentryCloudEventV2Wrapper(options, work)(event, configure, retry)
 
+/**
+ * Wraps Firestore v2 triggers. The events of the `*WithAuthContext` triggers also set the Sentry user from the
+ * principal that wrote the document.
+ */
 export const sentryWrapOnDocumentChange =
-  <T, P, R>(options: SentryWrapperParams, handler: (event: FirestoreEvent<T, P>) => Promise<R>) =>
-  (event: FirestoreEvent<T, P>) =>
+  <T, P, R, E extends FirestoreEvent<T, P> = FirestoreEvent<T, P>>(
+    options: SentryWrapperParams,
+    handler: (event: E) => Promise<R>,
+  ) =>
+  (event: E) =>
     sentryInvocationV2Wrapper(
       options,
       event,
       (scope) => {
-        scope.setContext('Firestore Document', {
-          document: event.document,
-          data: event.data,
+        configureFirestoreScope(scope, firestoreEventChange(event), options.scrub)
+        configureFirestoreAuthScope(scope, event)
+      },
+      () => handler(event),
+    )
+
+export const sentryWrapOnValueChange =
+  <T extends DataSnapshot | Change<DataSnapshot>, P, R>(
+    options: SentryWrapperParams,
+    handler: (event: DatabaseEvent<T, P>) => Promise<R>,
+  ) =>
+  async (event: DatabaseEvent<T, P>) =>
+    sentryInvocationV2Wrapper(
+      options,
+      event,
+      (scope) => {
+        scope.setContext('Realtime Database', {
+          ref: event.ref,
+          instance: event.instance,
+          params: event.params,
+          ...databaseDataSummary(event.data, event.ref, options.scrub),
         })
       },
       () => handler(event),
@@ -183,41 +602,358 @@ export const sentryWrapOnMessagePublished =
     handler: (event: CloudEvent<MessagePublishedData<T>>) => Promise<R>,
   ) =>
   async (event: CloudEvent<MessagePublishedData<T>>) =>
+    continueTraceFromAttributes(event.data.message.attributes, async () =>
+      sentryInvocationV2Wrapper(
+        options,
+        event,
+        (scope) => {
+          scope.setContext('PubSub Message', pubSubMessageContext(event.data.message.json, options))
+        },
+        () => handler(event),
+        // Only present when the subscription has a dead letter topic
+        eventRetryAttempt(event.time, (event.data as { deliveryAttempt?: number }).deliveryAttempt),
+      ),
+    )
+
+export const sentryWrapOnObjectChange =
+  <R>(options: SentryWrapperParams, handler: (event: StorageEvent) => Promise<R>) =>
+  async (event: StorageEvent) =>
     sentryInvocationV2Wrapper(
       options,
       event,
       (scope) => {
-        scope.setContext('PubSub Message', event.data.message.json)
+        scope.setContext('Storage Object', storageObjectContext(event.data))
+      },
+      () => handler(event),
+    )
+
+const sentryAlertWrapper =
+  <E extends AlertEvent<unknown>, R>(options: SentryWrapperParams, handler: (event: E) => Promise<R>) =>
+  async (event: E) =>
+    sentryInvocationV2Wrapper(
+      options,
+      event,
+      (scope) => {
+        scope.setTag('alert.type', event.alertType)
+        scope.setContext('Firebase Alert', {
+          alertType: event.alertType,
+          appId: event.appId,
+          createTime: event.data.createTime,
+          endTime: event.data.endTime,
+          payload: scrubPayload(event.data.payload, options.scrub),
+        })
+      },
+      () => handler(event),
+    )
+
+export const sentryWrapOnAlertPublished = <T, R>(
+  options: SentryWrapperParams,
+  handler: (event: AlertEvent<T>) => Promise<R>,
+) => sentryAlertWrapper(options, handler)
+
+export const sentryWrapOnCrashlyticsAlert = <T, R>(
+  options: SentryWrapperParams,
+  handler: (event: CrashlyticsEvent<T>) => Promise<R>,
+) => sentryAlertWrapper(options, handler)
+
+export const sentryWrapOnBillingAlert = <T, R>(
+  options: SentryWrapperParams,
+  handler: (event: BillingEvent<T>) => Promise<R>,
+) => sentryAlertWrapper(options, handler)
+
+export const sentryWrapOnAppDistributionAlert = <T, R>(
+  options: SentryWrapperParams,
+  handler: (event: AppDistributionEvent<T>) => Promise<R>,
+) => sentryAlertWrapper(options, handler)
+
+export const sentryWrapOnConfigUpdated =
+  <R>(options: SentryWrapperParams, handler: (event: CloudEvent<ConfigUpdateData>) => Promise<R>) =>
+  async (event: CloudEvent<ConfigUpdateData>) =>
+    sentryInvocationV2Wrapper(
+      options,
+      event,
+      (scope) => {
+        scope.setContext('Remote Config Update', {
+          versionNumber: event.data.versionNumber,
+          updateTime: event.data.updateTime,
+          updateUser: event.data.updateUser.email,
+          updateOrigin: event.data.updateOrigin,
+          updateType: event.data.updateType,
+          description: event.data.description,
+          rollbackSource: event.data.rollbackSource,
+        })
+      },
+      () => handler(event),
+    )
+
+export const sentryWrapOnTestMatrixCompleted =
+  <R>(options: SentryWrapperParams, handler: (event: CloudEvent<TestMatrixCompletedData>) => Promise<R>) =>
+  async (event: CloudEvent<TestMatrixCompletedData>) =>
+    sentryInvocationV2Wrapper(
+      options,
+      event,
+      (scope) => {
+        scope.setTag('test_matrix.state', event.data.state)
+        scope.setContext('Test Matrix', {
+          testMatrixId: event.data.testMatrixId,
+          state: event.data.state,
+          outcomeSummary: event.data.outcomeSummary,
+          invalidMatrixDetails: event.data.invalidMatrixDetails,
+          createTime: event.data.createTime,
+          client: event.data.clientInfo.client,
+          resultsUri: event.data.resultStorage.resultsUri,
+        })
+      },
+      () => handler(event),
+    )
+
+export const sentryWrapOnCustomEventPublished =
+  <T, R>(options: SentryWrapperParams, handler: (event: CloudEvent<T>) => Promise<R>) =>
+  async (event: CloudEvent<T>) =>
+    sentryInvocationV2Wrapper(
+      options,
+      event,
+      (scope) => {
+        scope.setContext('Eventarc Event', {
+          source: event.source,
+          subject: event.subject,
+          type: event.type,
+          data: scrubPayload(event.data, options.scrub),
+        })
       },
       () => handler(event),
     )
 
 export const sentryWrapOnSchedule =
-  (options: SentryWrapperParams, handler: (event: ScheduledEvent) => Promise<void>) => async (event: ScheduledEvent) =>
+  (options: SentryScheduleWrapperParams, handler: (event: ScheduledEvent) => Promise<void>) =>
+  async (event: ScheduledEvent) =>
     sentryConfigurationWrapper(
       { name: options.name, op: 'on-schedule' },
       (scope) => {
         scope.setContext('scheduledEvent', { event })
         scope.setTag('function.version', 'v2')
         scope.setTag('function.name', options.name)
+        addLogContext({ functionName: options.name })
       },
-      sentryCaptureUnhandledExceptionWrapper(() => handler(event)),
+      sentryCaptureUnhandledExceptionWrapper(
+        sentryMonitorWrapper(options, () => handler(event)),
+        resolveErrorClassifier(options.classifyError),
+      ),
+      options,
     )
 
 export const sentryWrapOnTaskDispatched =
   <T, R>(options: SentryWrapperParams, handler: (request: Request<T>) => Promise<R>) =>
-  async (request: Request<T>) =>
+  async (request: Request<T>) => {
+    const retry = { attempt: request.retryCount + 1 }
+    return withTraceContext(extractTraceContext(request.headers), async () =>
+      continueTraceFromTask(request, async () =>
+        sentryConfigurationWrapper(
+          { name: options.name, op: 'on-task-dispatched' },
+          (scope) => {
+            scope.setTag('function.version', 'v2')
+            scope.setTag('function.name', options.name)
+            addLogContext({ functionName: options.name })
+            configureRetryScope(scope, retry)
+            scope.setContext('Task Request', {
+              id: request.id,
+              queueName: request.queueName,
+              retryCount: request.retryCount,
+              data: scrubPayload(request.data, options.scrub),
+            })
+          },
+          sentryCaptureUnhandledExceptionWrapper(() => handler(request), retryAwareErrorClassifier(options, retry)),
+          options,
+        ),
+      ),
+    )
+  }
+
+type HttpsResponse = Parameters<HttpsFunction>[1]
+
+const headerValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value.join(',') : value)
+
+const sentryHttpResponseWrapper =
+  (request: HttpsRequest, response: HttpsResponse, work: () => Promise<void>) => async () => {
+    const startTime = Date.now()
+    try {
+      await work()
+    } finally {
+      const span = getActiveSpan()
+      if (span) {
+        setHttpStatus(span, response.statusCode)
+      }
+      getCurrentScope().setContext('HTTP Response', {
+        statusCode: response.statusCode,
+        responseTime: Date.now() - startTime,
+      })
+    }
+    if (response.statusCode >= 500) {
+      captureMessage(`${request.method} ${request.path} responded with ${response.statusCode}`, 'error')
+    }
+  }
+
+const sentryHttpsRequestWrapper =
+  (version: 'v1' | 'v2') =>
+  (options: SentryWrapperParams, handler: (request: HttpsRequest, response: HttpsResponse) => void | Promise<void>) =>
+  async (request: HttpsRequest, response: HttpsResponse) =>
+    withTraceContext(extractTraceContext(request.headers), async () =>
+      continueTrace(
+        {
+          sentryTrace: headerValue(request.headers['sentry-trace']),
+          baggage: headerValue(request.headers.baggage),
+        },
+        async () =>
+          sentryConfigurationWrapper(
+            {
+              name: `${request.method} ${request.path}`,
+              op: 'http.server',
+              attributes: {
+                'http.request.method': request.method,
+                'url.path': request.path,
+                'sentry.source': 'url',
+              },
+            },
+            (scope) => {
+              scope.setTag('function.version', version)
+              scope.setTag('function.name', options.name)
+              addLogContext({ functionName: options.name })
+              scope.setContext('HTTP Request', {
+                method: request.method,
+                url: request.originalUrl,
+                query: request.query,
+              })
+            },
+            sentryCaptureUnhandledExceptionWrapper(
+              sentryHttpResponseWrapper(request, response, async () => handler(request, response)),
+              withAlwaysRethrow(resolveErrorClassifier(options.classifyError)),
+            ),
+            options,
+          ),
+      ),
+    )
+
+export const sentryWrapOnRequest = sentryHttpsRequestWrapper('v2')
+
+export const sentryOnRequestV1Wrapper = sentryHttpsRequestWrapper('v1')
+
+type SentryCallableWrapperParams = SentryWrapperParams & {
+  /** Adds the decoded ID token claims to the Sentry user. Off by default since claims usually contain PII. */
+  includeTokenClaims?: boolean
+}
+
+const appCheckStatus = (app: CallableRequest['app']) => {
+  if (!app) return 'missing'
+  return app.alreadyConsumed ? 'consumed' : 'verified'
+}
+
+const configureCallableScope = (
+  scope: Scope,
+  options: SentryCallableWrapperParams,
+  version: 'v1' | 'v2',
+  { auth, app }: Pick<CallableRequest, 'auth' | 'app'>,
+) => {
+  scope.setTag('function.version', version)
+  scope.setTag('function.name', options.name)
+  scope.setTag('app_check', appCheckStatus(app))
+  addLogContext({ functionName: options.name })
+  if (auth) {
+    scope.setUser({
+      id: auth.uid,
+      ...(options.includeTokenClaims && { claims: auth.token }),
+    })
+    addLogContext({ uid: auth.uid })
+  }
+}
+
+export const sentryWrapOnCall =
+  <T, R, S = unknown>(
+    options: SentryCallableWrapperParams,
+    handler: (request: CallableRequest<T>, response?: CallableResponse<S>) => Promise<R>,
+  ) =>
+  async (request: CallableRequest<T>, response?: CallableResponse<S>) =>
+    withTraceContext(extractTraceContext(request.rawRequest.headers), async () =>
+      sentryConfigurationWrapper(
+        { name: options.name, op: 'on-call' },
+        (scope) => {
+          configureCallableScope(scope, options, 'v2', request)
+          scope.setContext('Callable Request', {
+            data: scrubPayload(request.data, options.scrub),
+            appId: request.app?.appId,
+            acceptsStreaming: request.acceptsStreaming,
+          })
+        },
+        sentryCaptureUnhandledExceptionWrapper(
+          () => handler(request, response),
+          withAlwaysRethrow(resolveErrorClassifier(options.classifyError, classifyHttpsError)),
+        ),
+        options,
+      ),
+    )
+
+export const sentryOnCallV1Wrapper =
+  <T, R>(options: SentryCallableWrapperParams, handler: (data: T, context: CallableContext) => Promise<R>) =>
+  async (data: T, context: CallableContext) =>
+    withTraceContext(extractTraceContext(context.rawRequest.headers), async () =>
+      sentryConfigurationWrapper(
+        { name: options.name, op: 'on-call' },
+        (scope) => {
+          configureCallableScope(scope, options, 'v1', context)
+          scope.setContext('Callable Request', {
+            data: scrubPayload(data, options.scrub),
+            appId: context.app?.appId,
+            method: context.rawRequest.method,
+            url: context.rawRequest.originalUrl,
+          })
+        },
+        sentryCaptureUnhandledExceptionWrapper(
+          () => handler(data, context),
+          withAlwaysRethrow(resolveErrorClassifier(options.classifyError, classifyHttpsError)),
+        ),
+        options,
+      ),
+    )
+
+const sentryAuthBlockingWrapper =
+  (op: string) =>
+  <R>(options: SentryWrapperParams, handler: (event: AuthBlockingEvent) => Promise<R>) =>
+  async (event: AuthBlockingEvent) =>
     sentryConfigurationWrapper(
-      { name: options.name, op: 'on-task-dispatched' },
+      { name: options.name, op },
       (scope) => {
         scope.setTag('function.version', 'v2')
         scope.setTag('function.name', options.name)
-        scope.setContext('Task Request', {
-          id: request.id,
-          queueName: request.queueName,
-          retryCount: request.retryCount,
-          data: request.data,
+        scope.setTag('auth.event_type', event.eventType)
+        addLogContext({ functionName: options.name, eventId: event.eventId })
+        const provider = event.additionalUserInfo?.providerId ?? event.credential?.providerId
+        if (provider) {
+          scope.setTag('auth.provider', provider)
+        }
+        if (event.data) {
+          scope.setUser({ id: event.data.uid })
+          addLogContext({ uid: event.data.uid })
+        }
+        scope.setContext('Firebase Context', {
+          eventId: event.eventId,
+          eventType: event.eventType,
+          resource: event.resource,
+          timestamp: event.timestamp,
+        })
+        scope.setContext('Auth Blocking Event', {
+          locale: event.locale,
+          userAgent: event.userAgent,
+          isNewUser: event.additionalUserInfo?.isNewUser,
+          recaptchaScore: event.additionalUserInfo?.recaptchaScore,
+          signInMethod: event.credential?.signInMethod,
         })
       },
-      sentryCaptureUnhandledExceptionWrapper(() => handler(request)),
+      sentryCaptureUnhandledExceptionWrapper(
+        () => handler(event),
+        withAlwaysRethrow(resolveErrorClassifier(options.classifyError, classifyAuthBlockingRejection)),
+      ),
+      options,
     )
+
+export const sentryWrapBeforeUserCreated = sentryAuthBlockingWrapper('before-user-created')
+
+export const sentryWrapBeforeUserSignedIn = sentryAuthBlockingWrapper('before-user-signed-in')
@@ -0,0 +1,64 @@
+import { continueTrace, getTraceData } from '@sentry/node'
+
+export type TraceAttributes = Record<string, string>
+
+type PubSubMessage = { attributes?: TraceAttributes }
+
+type PubSubTopic<M extends PubSubMessage> = { publishMessage: (message: M) => Promise<string> }
+
+type TaskOptions = { headers?: TraceAttributes }
+
+type TaskQueue<A, O extends TaskOptions> = { enqueue: (data: A, opts?: O) => Promise<void> }
+
+type TaskRequest = { headers?: TraceAttributes; data: unknown }
+
+/**
+ * Reserved field of the task data carrying the trace when the task cannot be enqueued with custom headers.
+ */
+export const SENTRY_TRACE_DATA_FIELD = '__sentryTrace'
+
+/**
+ * Returns the given attributes with the `sentry-trace` and `baggage` of the active trace added.
+ */
+export const withSentryTraceAttributes = (attributes: TraceAttributes = {}): TraceAttributes => {
+  const { 'sentry-trace': sentryTrace, baggage } = getTraceData()
+  return {
+    ...attributes,
+    ...(sentryTrace && { 'sentry-trace': sentryTrace }),
+    ...(baggage && { baggage }),
+  }
+}
+
+/**
+ * Publishes a message on a `@google-cloud/pubsub` topic with the active trace in its attributes, so the consumer
+ * wrapped by `sentryWrapOnMessagePublished` or `sentryOnPublishV1Wrapper` continues the same trace.
+ */
+export const publishMessageWithSentryTrace = async <M extends PubSubMessage>(topic: PubSubTopic<M>, message: M) =>
+  topic.publishMessage({ ...message, attributes: withSentryTraceAttributes(message.attributes) })
+
+/**
+ * Enqueues a task on a Firebase Admin SDK `TaskQueue` with the active trace in its headers, so the task wrapped by
+ * `sentryWrapOnTaskDispatched` continues the same trace.
+ */
+export const enqueueTaskWithSentryTrace = async <A, O extends TaskOptions>(queue: TaskQueue<A, O>, data: A, opts?: O) =>
+  queue.enqueue(data, { ...opts, headers: withSentryTraceAttributes(opts?.headers) } as O)
+
+/**
+ * Continues the trace carried by `sentry-trace` and `baggage` attributes, or starts a new one when they are missing.
+ */
+export const continueTraceFromAttributes = <V>(attributes: TraceAttributes | undefined, callback: () => V): V =>
+  continueTrace({ sentryTrace: attributes?.['sentry-trace'], baggage: attributes?.baggage }, callback)
+
+const traceAttributesFromData = (data: unknown) =>
+  typeof data === 'object' && data !== null && SENTRY_TRACE_DATA_FIELD in data
+    ? (data as Record<typeof SENTRY_TRACE_DATA_FIELD, TraceAttributes>)[SENTRY_TRACE_DATA_FIELD]
+    : undefined
+
+/**
+ * Continues the trace carried by the task headers, or by the `SENTRY_TRACE_DATA_FIELD` of its data.
+ */
+export const continueTraceFromTask = <V>(request: TaskRequest, callback: () => V): V =>
+  continueTraceFromAttributes(
+    request.headers?.['sentry-trace'] ? request.headers : traceAttributesFromData(request.data),
+    callback,
+  )